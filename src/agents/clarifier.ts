@@ -53,6 +53,8 @@ Please explore the codebase to understand the project context, then ask clarifyi
     repoPath,
     maxIterations: 5,
     maxTokens: 1500,
+    config: context.config,
+    role: 'clarifier',
   });
 
   console.log(`[Clarifier] Completed after ${iterationCount} iterations, used ${toolsUsed.length} tools`);
@@ -80,7 +82,8 @@ Please explore the codebase to understand the project context, then ask clarifyi
     await githubService.postComment(
       source_repo,
       issue_number,
-      `${cleanResponse}\n\n---\n\n✅ **Clarification Complete**\n\nMoving to **Scoping Phase**. I'll now define the boundaries and acceptance criteria for this work.`
+      `${cleanResponse}\n\n---\n\n✅ **Clarification Complete**\n\nMoving to **Scoping Phase**. I'll now define the boundaries and acceptance criteria for this work.`,
+      { agent: 'clarifier', kind: 'result', sessionId: session.id }
     );
 
     // Import and run scope agent
@@ -93,7 +96,8 @@ Please explore the codebase to understand the project context, then ask clarifyi
     await githubService.postComment(
       source_repo,
       issue_number,
-      `🔍 **Clarifying Questions**\n\n${cleanResponse}`
+      `🔍 **Clarifying Questions**\n\n${cleanResponse}`,
+      { agent: 'clarifier', kind: 'question', sessionId: session.id }
     );
   }
 }
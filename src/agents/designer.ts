@@ -81,6 +81,8 @@ Reference specific files and patterns you find.`;
     repoPath,
     maxIterations: 6,  // Designer may need more exploration
     maxTokens: 2500,
+    config: context.config,
+    role: 'designer',
   });
 
   console.log(`[Designer] Completed after ${iterationCount} iterations, used ${toolsUsed.length} tools`);
@@ -106,7 +108,8 @@ Reference specific files and patterns you find.`;
     await githubService.postComment(
       source_repo,
       issue_number,
-      `🏗️ **Technical Design**\n\n${cleanResponse}\n\n---\n\n✅ **Design Complete**\n\nMoving to **Planning Phase**. I'll now break this into implementation tasks.`
+      `🏗️ **Technical Design**\n\n${cleanResponse}\n\n---\n\n✅ **Design Complete**\n\nMoving to **Planning Phase**. I'll now break this into implementation tasks.`,
+      { agent: 'designer', kind: 'result', sessionId: session.id }
     );
 
     const { runPlanner } = await import('./planner.js');
@@ -118,7 +121,8 @@ Reference specific files and patterns you find.`;
     await githubService.postComment(
       source_repo,
       issue_number,
-      `🏗️ **Design**\n\n${cleanResponse}`
+      `🏗️ **Design**\n\n${cleanResponse}`,
+      { agent: 'designer', kind: 'question', sessionId: session.id }
     );
   }
 }
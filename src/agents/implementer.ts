@@ -4,8 +4,8 @@ import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
 import { CODE_TOOLS } from '../tools/definitions.js';
 import { ToolExecutor } from '../tools/executor.js';
-
-const anthropic = new Anthropic();
+import { createMessage } from '../services/models.js';
+import { ContextCompactor } from '../services/compaction.js';
 
 const MAX_ITERATIONS = 50; // Safety limit
 
@@ -20,11 +20,15 @@ Your goal is to:
 Guidelines:
 - Start by exploring the codebase structure with list_directory
 - Read relevant files before modifying them
+- Use find_definition / find_references / list_exports to navigate code instead of reading whole files
 - Make small, incremental changes
 - Run tests frequently to catch issues early
 - Use apply_diff for small changes to existing files
+- Use apply_patch for multi-hunk or multi-file edits (unified diff)
+- Use delete_file / move_file to remove or rename files instead of leaving them empty
 - Use write_file for new files or complete rewrites
 - Follow existing code patterns and conventions
+- Before finishing, review your changes with git_diff (no arguments) and remove leftovers
 
 When you have successfully implemented all changes and tests pass, respond with:
 IMPLEMENTATION_COMPLETE
@@ -46,10 +50,11 @@ export async function runImplementer(context: AgentContext): Promise<void> {
   await githubService.postComment(
     source_repo,
     issue_number,
-    `🔧 **Implementation Started**\n\nI'm now implementing the planned changes. This may take a few minutes...\n\nPlan being executed:\n${session.metadata.plan || 'No plan found'}`
+    `🔧 **Implementation Started**\n\nI'm now implementing the planned changes. This may take a few minutes...\n\nPlan being executed:\n${session.metadata.plan || 'No plan found'}`,
+    { agent: 'implementer', kind: 'status', sessionId: session.id }
   );
 
-  const executor = new ToolExecutor(repoPath);
+  const executor = new ToolExecutor(repoPath, { ...context.config, agent: 'implementer' });
 
   // Build initial context from session
   const implementationContext = `
@@ -77,18 +82,20 @@ Begin by exploring the codebase, then implement the changes step by step.`;
 
   let iterations = 0;
   const changedFiles: string[] = [];
+  const compactor = new ContextCompactor(context.config.compaction, 'implementer', { system: SYSTEM_PROMPT, tools: CODE_TOOLS });
 
   while (iterations < MAX_ITERATIONS) {
     iterations++;
     console.log(`Implementation iteration ${iterations}/${MAX_ITERATIONS}`);
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
+    compactor.compact(messages);
+    const response = await createMessage(context.config, 'implementer', {
       max_tokens: 4096,
       system: SYSTEM_PROMPT,
       tools: CODE_TOOLS,
       messages,
     });
+    compactor.observe(messages, response.usage);
 
     // Check for completion or blocking
     let isComplete = false;
@@ -130,8 +137,7 @@ Begin by exploring the codebase, then implement the changes step by step.`;
         );
 
         // Track file changes
-        if (toolUse.name === 'write_file' || toolUse.name === 'apply_diff') {
-          const filePath = (toolUse.input as { path: string }).path;
+        for (const filePath of result.changedPaths || []) {
           if (!changedFiles.includes(filePath)) {
             changedFiles.push(filePath);
           }
@@ -169,12 +175,14 @@ Begin by exploring the codebase, then implement the changes step by step.`;
       await sessionService.updateMetadata(session.id, { 
         implementedFiles: changedFiles,
         implementationIterations: iterations,
+        implementationCompaction: compactor.stats,
       });
 
       await githubService.postComment(
         source_repo,
         issue_number,
-        `✅ **Implementation Complete**\n\n**Files changed:**\n${changedFiles.map(f => `- \`${f}\``).join('\n')}\n\n**Iterations:** ${iterations}\n\nMoving to testing phase...`
+        `✅ **Implementation Complete**\n\n**Files changed:**\n${changedFiles.map(f => `- \`${f}\``).join('\n')}\n\n**Iterations:** ${iterations}\n\nMoving to testing phase...`,
+        { agent: 'implementer', kind: 'result', sessionId: session.id }
       );
 
       return;
@@ -193,7 +201,8 @@ Begin by exploring the codebase, then implement the changes step by step.`;
       await githubService.postComment(
         source_repo,
         issue_number,
-        `⚠️ **Implementation Blocked**\n\n${blockReason}\n\n**Files changed so far:**\n${changedFiles.map(f => `- \`${f}\``).join('\n') || 'None'}\n\nPlease help resolve this blocker and then add the \`agent:resume\` label to continue.`
+        `⚠️ **Implementation Blocked**\n\n${blockReason}\n\n**Files changed so far:**\n${changedFiles.map(f => `- \`${f}\``).join('\n') || 'None'}\n\nPlease help resolve this blocker and then add the \`agent:resume\` label to continue.`,
+        { agent: 'implementer', kind: 'error', sessionId: session.id }
       );
 
       return;
@@ -216,7 +225,8 @@ Begin by exploring the codebase, then implement the changes step by step.`;
   await githubService.postComment(
     source_repo,
     issue_number,
-    `⚠️ **Implementation Paused**\n\nReached maximum iterations (${MAX_ITERATIONS}) without completing.\n\n**Files changed:**\n${changedFiles.map(f => `- \`${f}\``).join('\n') || 'None'}\n\nThe implementation may need manual review.`
+    `⚠️ **Implementation Paused**\n\nReached maximum iterations (${MAX_ITERATIONS}) without completing.\n\n**Files changed:**\n${changedFiles.map(f => `- \`${f}\``).join('\n') || 'None'}\n\nThe implementation may need manual review.`,
+    { agent: 'implementer', kind: 'status', sessionId: session.id }
   );
 }
 
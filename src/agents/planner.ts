@@ -87,6 +87,8 @@ Include specific file paths and be precise about what needs to change.`;
     repoPath,
     maxIterations: 6,  // Planner needs to verify file locations
     maxTokens: 2500,
+    config: context.config,
+    role: 'planner',
   });
 
   console.log(`[Planner] Completed after ${iterationCount} iterations, used ${toolsUsed.length} tools`);
@@ -112,17 +114,19 @@ Include specific file paths and be precise about what needs to change.`;
     await githubService.postComment(
       source_repo,
       issue_number,
-      `📝 **Implementation Plan**\n\n${cleanResponse}\n\n---\n\n🎉 **All Phases Complete!**\n\nThis ticket has been fully refined and is ready for implementation.\n\n**Summary:**\n- ✅ Clarification\n- ✅ Scoping  \n- ✅ Design\n- ✅ Planning\n\nThe agent session is now complete. Happy coding! 🚀`
+      `📝 **Implementation Plan**\n\n${cleanResponse}\n\n---\n\n🎉 **All Phases Complete!**\n\nThis ticket has been fully refined and is ready for implementation.\n\n**Summary:**\n- ✅ Clarification\n- ✅ Scoping  \n- ✅ Design\n- ✅ Planning\n\nThe agent session is now complete. Happy coding! 🚀`,
+      { agent: 'planner', kind: 'result', sessionId: session.id }
     );
 
-    // Remove the agent:start label and add agent:complete
-    await githubService.removeLabel(source_repo, issue_number, 'agent:start');
-    await githubService.addLabel(source_repo, issue_number, 'agent:complete');
+    // Remove the start label and add the complete label
+    await githubService.removeLabel(source_repo, issue_number, context.config.labels.start);
+    await githubService.addLabel(source_repo, issue_number, context.config.labels.complete);
   } else {
     await githubService.postComment(
       source_repo,
       issue_number,
-      `📝 **Planning**\n\n${cleanResponse}`
+      `📝 **Planning**\n\n${cleanResponse}`,
+      { agent: 'planner', kind: 'question', sessionId: session.id }
     );
   }
 }
@@ -85,6 +85,8 @@ Be specific about which files and components will need changes.`;
     repoPath,
     maxIterations: 5,
     maxTokens: 2000,
+    config: context.config,
+    role: 'scope',
   });
 
   console.log(`[Scope] Completed after ${iterationCount} iterations, used ${toolsUsed.length} tools`);
@@ -110,7 +112,8 @@ Be specific about which files and components will need changes.`;
     await githubService.postComment(
       source_repo,
       issue_number,
-      `📋 **Scope Defined**\n\n${cleanResponse}\n\n---\n\n✅ **Scoping Complete**\n\nMoving to **Design Phase**. I'll now outline the technical approach.`
+      `📋 **Scope Defined**\n\n${cleanResponse}\n\n---\n\n✅ **Scoping Complete**\n\nMoving to **Design Phase**. I'll now outline the technical approach.`,
+      { agent: 'scope', kind: 'result', sessionId: session.id }
     );
 
     const { runDesigner } = await import('./designer.js');
@@ -122,7 +125,8 @@ Be specific about which files and components will need changes.`;
     await githubService.postComment(
       source_repo,
       issue_number,
-      `📋 **Scoping**\n\n${cleanResponse}`
+      `📋 **Scoping**\n\n${cleanResponse}`,
+      { agent: 'scope', kind: 'question', sessionId: session.id }
     );
   }
 }
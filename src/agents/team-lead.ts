@@ -1,12 +1,15 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AgentContext, AgentResult, AgentName, Delegation, ConversationMessage } from '../types/index.js';
+import { AgentContext, AgentResult, AgentName, AgentSession, Checkpoint, CompactionStats, Delegation, ConversationMessage, SessionUsage, TeamLeadState } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
 import { runAgentForTeamLead } from '../services/agent-runner.js';
+import { createMessage } from '../services/models.js';
+import { UsageMeter, withUsageMeter, formatCost, formatUsageSummary } from '../services/usage.js';
+import { recordCheckpoint, rollbackSession, formatCheckpoints } from '../services/checkpoints.js';
+import { ContextCompactor } from '../services/compaction.js';
+import { StatusBoard } from '../services/status-board.js';
+import { ToolExecutor } from '../tools/executor.js';
 
-const anthropic = new Anthropic();
-
-const MAX_ITERATIONS = 25;
 const DELEGATABLE_AGENTS: AgentName[] = ['clarifier', 'scope', 'designer', 'planner', 'implementer', 'tester', 'pr-creator'];
 
 const TEAM_LEAD_TOOLS: Anthropic.Tool[] = [
@@ -75,6 +78,33 @@ const TEAM_LEAD_TOOLS: Anthropic.Tool[] = [
       required: ['reason'],
     },
   },
+  {
+    name: 'checkpoint',
+    description: 'Snapshot the working tree so it can be restored later. Checkpoints are also taken automatically before each delegation and when tests pass.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        label: {
+          type: 'string',
+          description: 'What state this is, e.g. "API layer done, UI pending"',
+        },
+      },
+      required: ['label'],
+    },
+  },
+  {
+    name: 'rollback_to_checkpoint',
+    description: 'Restore the working tree to a checkpoint, undoing all file changes made since. Use when an implementation attempt went wrong. The current state is checkpointed first.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        checkpoint_id: {
+          type: 'string',
+          description: 'Checkpoint id (or prefix) from the Checkpoints list. Omit for the latest checkpoint where tests passed.',
+        },
+      },
+    },
+  },
   {
     name: 'think',
     description: 'Record your reasoning about what to do next. Use this to plan your approach.',
@@ -85,6 +115,10 @@ const TEAM_LEAD_TOOLS: Anthropic.Tool[] = [
           type: 'string',
           description: 'Your analysis and reasoning',
         },
+        strategy: {
+          type: 'string',
+          description: 'Optional one-line summary of your overall strategy for this ticket (replaces the previous one)',
+        },
       },
       required: ['reasoning'],
     },
@@ -117,6 +151,7 @@ You can delegate to these specialist agents:
 - Ask humans only when truly stuck—prefer making reasonable decisions
 - Track your reasoning with the think tool
 - Mark complete when PR is created successfully
+- If the implementer made things worse, roll back to a checkpoint instead of piling fixes on top
 
 ## IMPORTANT: Respect Human Decisions
 When a human responds to your question:
@@ -130,43 +165,106 @@ When a human responds to your question:
 You'll receive the ticket details and any previous work. Analyze and decide the next action.`;
 
 export interface TeamLeadResult {
-  status: 'completed' | 'blocked' | 'waiting_for_human';
+  status: 'completed' | 'blocked' | 'waiting_for_human' | 'cancelled';
   summary: string;
   delegations: Delegation[];
   prUrl?: string;
+  compaction?: CompactionStats;
 }
 
 export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult> {
-  const { session, payload } = context;
+  // Every model call in this run (Team Lead and delegated agents) counts towards the session total
+  const usageMeter = new UsageMeter(context.session.metadata.usage as SessionUsage | undefined);
+  const compactor = new ContextCompactor(context.config.compaction, 'team-lead', { system: SYSTEM_PROMPT, tools: TEAM_LEAD_TOOLS });
+  const result = await withUsageMeter(usageMeter, () => runTeamLeadLoop(context, usageMeter, compactor));
+  return { ...result, compaction: compactor.stats };
+}
+
+async function runTeamLeadLoop(context: AgentContext, usageMeter: UsageMeter, compactor: ContextCompactor): Promise<TeamLeadResult> {
+  const { session, payload, config } = context;
   const { source_repo, issue_number } = payload;
+  const maxIterations = config.limits.teamLeadIterations;
+  // `/budget <usd>` overrides the repository config for this session
+  const sessionBudget = (s: AgentSession) => (s.metadata.budgetUsd as number | undefined) ?? config.limits.sessionBudgetUsd;
+  let budgetUsd = sessionBudget(session);
+  const repoPath = process.env.REPO_PATH || process.env.GITHUB_WORKSPACE || './source-repo';
+  const executor = new ToolExecutor(repoPath, config);
 
   if (!issue_number) throw new Error('Missing issue_number');
 
   console.log(`[TeamLead] Starting for ${source_repo}#${issue_number}`);
 
-  const delegations: Delegation[] = [];
-  const reasoning: string[] = [];
+  // Rehydrate state from previous runs (e.g. before a human reply)
+  const state = restoreTeamLeadState(session);
+  const { delegations, reasoning } = state;
+  const persistState = async () => {
+    await sessionService.updateTeamLeadState(session.id, state);
+    await sessionService.updateMetadata(session.id, { usage: usageMeter.snapshot() });
+  };
+
+  // Progress goes into one edited comment; new comments only for questions and outcomes
+  const board = new StatusBoard(session, source_repo, issue_number);
+  const showStatus = (headline: string, running?: { agent: AgentName; focus?: string }) =>
+    board.update({ headline, running, state, usage: usageMeter.snapshot() });
+
+  const markBlocked = async (reason: string, attempted?: string): Promise<TeamLeadResult> => {
+    console.log(`[TeamLead] Marking blocked: ${reason}`);
+    await persistState();
+
+    await sessionService.updateStatus(session.id, 'paused');
+    await showStatus(`🚫 Blocked: ${reason}`);
+
+    await githubService.postComment(
+      source_repo,
+      issue_number,
+      `🚫 **Team Lead**: Blocked\n\n**Reason:** ${reason}\n\n${attempted ? `**Attempted:** ${attempted}` : ''}\n\n_Add the \`${config.labels.start}\` label again after resolving the blocker._`,
+      { agent: 'team-lead', kind: 'error', sessionId: session.id }
+    );
+
+    return {
+      status: 'blocked',
+      summary: reason,
+      delegations,
+    };
+  };
+
+  if (delegations.length > 0) {
+    console.log(`[TeamLead] Restored ${delegations.length} delegations from previous runs`);
+  }
+  await showStatus(delegations.length > 0 ? '🧠 Team Lead is continuing' : '🧠 Team Lead is analyzing the ticket');
 
   // Build initial context
-  let stateContext = buildStateContext(session, delegations);
+  let stateContext = buildStateContext(session, state, budgetUsd);
 
   const messages: Anthropic.MessageParam[] = [
     { role: 'user', content: stateContext },
   ];
 
   let iterations = 0;
+  // Re-read after every iteration: slash commands (/stop, /skip, /budget) apply while we run
+  let current = session;
 
-  while (iterations < MAX_ITERATIONS) {
+  while (iterations < maxIterations) {
     iterations++;
-    console.log(`[TeamLead] Iteration ${iterations}/${MAX_ITERATIONS}`);
+    state.iterationCount++;
+    console.log(`[TeamLead] Iteration ${iterations}/${maxIterations}`);
+
+    const spentUsd = usageMeter.total.costUsd;
+    if (budgetUsd > 0 && spentUsd >= budgetUsd) {
+      return markBlocked(
+        `Session budget of ${formatCost(budgetUsd)} reached (estimated spend ${formatCost(spentUsd)}). Comment \`/budget <usd>\` or raise \`limits.sessionBudgetUsd\` in the repository config to continue.`,
+        delegations.length > 0 ? delegations.map(d => d.agent).join(' → ') : undefined
+      );
+    }
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
+    compactor.compact(messages);
+    const response = await createMessage(config, 'team-lead', {
       max_tokens: 2048,
       system: SYSTEM_PROMPT,
       tools: TEAM_LEAD_TOOLS,
       messages,
     });
+    compactor.observe(messages, response.usage);
 
     // Process response
     const toolUseBlocks = response.content.filter(
@@ -189,6 +287,8 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
       switch (toolUse.name) {
         case 'think': {
           reasoning.push(input.reasoning);
+          if (input.strategy) state.currentStrategy = input.strategy;
+          await persistState();
           toolResults.push({
             type: 'tool_result',
             tool_use_id: toolUse.id,
@@ -199,17 +299,29 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
 
         case 'delegate_to_agent': {
           const agentName = input.agent as AgentName;
+
+          const skipped = (current.metadata.skippedAgents as AgentName[] | undefined) || [];
+          if (skipped.includes(agentName)) {
+            toolResults.push({
+              type: 'tool_result',
+              tool_use_id: toolUse.id,
+              content: `The human asked to skip the ${agentName} agent (/skip). Continue without it, or ask the human.`,
+              is_error: true,
+            });
+            break;
+          }
+
           console.log(`[TeamLead] Delegating to ${agentName}`);
 
-          // Post status update
-          await githubService.postComment(
-            source_repo,
-            issue_number,
-            `🤖 **Team Lead**: Delegating to **${agentName}** agent...${input.instructions ? `\n\n_Focus: ${input.instructions}_` : ''}`
-          );
+          await showStatus(`⏳ Running ${agentName}`, { agent: agentName, focus: input.instructions });
+
+          await recordCheckpoint(executor, session, config, `before ${agentName}`, { agent: agentName });
 
-          // Run the agent
-          const agentResult = await runAgentForTeamLead(agentName, context, input.instructions);
+          // Run the agent, metering its model calls separately
+          const delegationMeter = new UsageMeter();
+          const agentResult = await withUsageMeter(delegationMeter, () =>
+            runAgentForTeamLead(agentName, context, input.instructions)
+          );
 
           // Record delegation
           const delegation: Delegation = {
@@ -217,11 +329,16 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
             input: input.instructions || '',
             output: agentResult,
             timestamp: new Date().toISOString(),
+            usage: delegationMeter.total,
           };
           delegations.push(delegation);
+          await persistState();
+          if (current.metadata.requestedAgent === agentName) {
+            await sessionService.updateMetadata(session.id, { requestedAgent: null });
+          }
 
-          // Update session with agent output
-          if (agentResult.success && agentResult.data) {
+          // Update session with agent output (changed files and test results are recorded even when they fail)
+          if ((agentResult.success || agentName === 'tester' || agentName === 'implementer') && agentResult.data) {
             const metadataUpdate: Record<string, unknown> = {};
             if (agentName === 'scope') metadataUpdate.scope = agentResult.output;
             if (agentName === 'designer') metadataUpdate.design = agentResult.output;
@@ -234,7 +351,13 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
                 metadataUpdate.claude_code_complexity = agentResult.data.complexity;
               }
             }
-            if (agentName === 'tester') metadataUpdate.testResults = agentResult.data.results;
+            if (agentName === 'tester') {
+              metadataUpdate.testResults = agentResult.data.results;
+              metadataUpdate.testsPassed = agentResult.data.criticalPassed;
+              if (agentResult.data.criticalPassed) {
+                await recordCheckpoint(executor, session, config, 'tests passed', { agent: 'tester', good: true });
+              }
+            }
             if (agentName === 'pr-creator') {
               metadataUpdate.prNumber = agentResult.data.prNumber;
               metadataUpdate.prUrl = agentResult.data.prUrl;
@@ -244,22 +367,14 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
             }
           }
 
-          // Post agent output
-          if (agentResult.output) {
-            const emoji = agentResult.success ? '✅' : '❌';
-            await githubService.postComment(
-              source_repo,
-              issue_number,
-              `${emoji} **${agentName}** result:\n\n${agentResult.output.slice(0, 3000)}`
-            );
-          }
-
           // If agent needs human input, surface it
           if (agentResult.needsHumanInput && agentResult.humanQuestion) {
+            await showStatus(`❓ Waiting for your reply to ${agentName}`);
             await githubService.postComment(
               source_repo,
               issue_number,
-              `❓ **Question from ${agentName}:**\n\n${agentResult.humanQuestion}\n\n_Reply to this issue to continue._`
+              `❓ **Question from ${agentName}:**\n\n${agentResult.humanQuestion}\n\n_Reply to this issue to continue._`,
+              { agent: agentName, kind: 'question', sessionId: session.id }
             );
 
             // Save message for when human responds
@@ -291,13 +406,16 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
 
           // If PR was created, we might be done
           if (agentName === 'pr-creator' && agentResult.success) {
+            await persistState();
             await sessionService.updatePhase(session.id, 'completed');
             await sessionService.updateStatus(session.id, 'completed');
-            
+            await showStatus('🎉 Done: pull request created');
+
             await githubService.postComment(
               source_repo,
               issue_number,
-              `🎉 **Team Lead**: All done! PR created successfully.\n\n${agentResult.output}`
+              `🎉 **Team Lead**: All done! PR created successfully.\n\n${agentResult.output}\n\n${formatCostSection(usageMeter.snapshot())}`,
+              { agent: 'team-lead', kind: 'result', sessionId: session.id }
             );
 
             return {
@@ -308,16 +426,52 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
             };
           }
 
+          await showStatus(`${agentResult.success ? '✅' : '❌'} ${agentName} ${agentResult.success ? 'finished' : 'failed'}, Team Lead is deciding the next step`);
+          break;
+        }
+
+        case 'checkpoint': {
+          const checkpoint = await recordCheckpoint(executor, session, config, input.label);
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            content: checkpoint
+              ? `Checkpoint ${checkpoint.id.slice(0, 7)} saved: ${checkpoint.label}`
+              : 'Checkpoints are unavailable (disabled in config, or the checkout is not a git repository).',
+            is_error: !checkpoint,
+          });
+          break;
+        }
+
+        case 'rollback_to_checkpoint': {
+          const rollback = await rollbackSession(executor, session, config, input.checkpoint_id);
+          if (rollback.success && rollback.checkpoint) {
+            await githubService.postComment(
+              source_repo,
+              issue_number,
+              `↩️ **Team Lead**: Rolled back to checkpoint \`${rollback.checkpoint.id.slice(0, 7)}\` (${rollback.checkpoint.label}).\n\n${rollback.output}${rollback.backup ? `\n\n_Previous state saved as \`${rollback.backup.id.slice(0, 7)}\`._` : ''}`,
+              { agent: 'team-lead', kind: 'status', sessionId: session.id }
+            );
+          }
+          toolResults.push({
+            type: 'tool_result',
+            tool_use_id: toolUse.id,
+            content: rollback.output,
+            is_error: !rollback.success,
+          });
           break;
         }
 
         case 'ask_human': {
           console.log(`[TeamLead] Asking human: ${input.question}`);
-          
+          await persistState();
+          await showStatus('❓ Waiting for your reply');
+
           await githubService.postComment(
             source_repo,
             issue_number,
-            `❓ **Team Lead needs input:**\n\n${input.question}\n\n_Reply to this issue to continue._`
+            `❓ **Team Lead needs input:**\n\n${input.question}\n\n_Reply to this issue to continue._`,
+            { agent: 'team-lead', kind: 'question', sessionId: session.id }
           );
 
           const msg: ConversationMessage = {
@@ -337,18 +491,21 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
 
         case 'mark_complete': {
           console.log(`[TeamLead] Marking complete: ${input.summary}`);
-          
+          await persistState();
+
           await sessionService.updatePhase(session.id, 'completed');
           await sessionService.updateStatus(session.id, 'completed');
+          await showStatus('🎉 Ticket complete');
 
           await githubService.postComment(
             source_repo,
             issue_number,
-            `🎉 **Team Lead**: Ticket complete!\n\n${input.summary}\n\n---\n_Processed in ${iterations} iterations with ${delegations.length} delegations._`
+            `🎉 **Team Lead**: Ticket complete!\n\n${input.summary}\n\n${formatCostSection(usageMeter.snapshot())}\n\n---\n_Processed in ${state.iterationCount} iterations with ${delegations.length} delegations._`,
+            { agent: 'team-lead', kind: 'result', sessionId: session.id }
           );
 
-          await githubService.removeLabel(source_repo, issue_number, 'agent:start');
-          await githubService.addLabel(source_repo, issue_number, 'agent:complete');
+          await githubService.removeLabel(source_repo, issue_number, config.labels.start);
+          await githubService.addLabel(source_repo, issue_number, config.labels.complete);
 
           return {
             status: 'completed',
@@ -357,23 +514,8 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
           };
         }
 
-        case 'mark_blocked': {
-          console.log(`[TeamLead] Marking blocked: ${input.reason}`);
-          
-          await sessionService.updateStatus(session.id, 'paused');
-
-          await githubService.postComment(
-            source_repo,
-            issue_number,
-            `🚫 **Team Lead**: Blocked\n\n**Reason:** ${input.reason}\n\n${input.attempted ? `**Attempted:** ${input.attempted}` : ''}\n\n_Add the \`agent:start\` label again after resolving the blocker._`
-          );
-
-          return {
-            status: 'blocked',
-            summary: input.reason,
-            delegations,
-          };
-        }
+        case 'mark_blocked':
+          return markBlocked(input.reason, input.attempted);
 
         default:
           toolResults.push({
@@ -392,31 +534,83 @@ export async function runTeamLead(context: AgentContext): Promise<TeamLeadResult
     // Refresh context for next iteration
     const updatedSession = await sessionService.getSession(source_repo, issue_number);
     if (updatedSession) {
-      stateContext = buildStateContext(updatedSession, delegations);
+      current = updatedSession;
+      if (current.status === 'cancelled') {
+        console.log('[TeamLead] Session was stopped, ending the run');
+        await persistState();
+        await showStatus('🛑 Stopped');
+        return { status: 'cancelled', summary: 'Stopped by a human', delegations };
+      }
+      budgetUsd = sessionBudget(current);
+      stateContext = buildStateContext(current, state, budgetUsd);
     }
   }
 
   // Hit max iterations
+  await persistState();
+  await sessionService.updateStatus(session.id, 'paused');
+  await showStatus(`⚠️ Paused after ${maxIterations} iterations`);
+
   await githubService.postComment(
     source_repo,
     issue_number,
-    `⚠️ **Team Lead**: Reached maximum iterations (${MAX_ITERATIONS}). Pausing for review.\n\n_${delegations.length} delegations completed._`
+    `⚠️ **Team Lead**: Reached maximum iterations (${maxIterations}). Pausing for review.\n\n_${delegations.length} delegations completed._`,
+    { agent: 'team-lead', kind: 'status', sessionId: session.id }
   );
 
-  await sessionService.updateStatus(session.id, 'paused');
-
   return {
     status: 'blocked',
-    summary: `Reached max iterations (${MAX_ITERATIONS})`,
+    summary: `Reached max iterations (${maxIterations})`,
     delegations,
   };
 }
 
-function buildStateContext(session: any, delegations: Delegation[]): string {
+function restoreTeamLeadState(session: AgentSession): TeamLeadState {
+  const saved = session.team_lead_state || {};
+  return {
+    reasoning: saved.reasoning || [],
+    delegations: saved.delegations || [],
+    currentStrategy: saved.currentStrategy || '',
+    iterationCount: saved.iterationCount || 0,
+  };
+}
+
+function formatCostSection(usage: SessionUsage): string {
+  return `<details>\n<summary>💰 Estimated cost: ${formatCost(usage.total.costUsd)} (${usage.total.calls} model calls)</summary>\n\n${formatUsageSummary(usage)}\n</details>`;
+}
+
+function buildStateContext(session: AgentSession, state: TeamLeadState, budgetUsd: number): string {
+  const { delegations, reasoning } = state;
+
   const recentDelegations = delegations.slice(-5).map(d => 
     `- ${d.agent}: ${d.output.success ? 'Success' : 'Failed'} - ${d.output.output.slice(0, 200)}`
   ).join('\n');
 
+  // Compact summary of every delegation so far, so restored runs know what already ran
+  const agentCounts = new Map<AgentName, { runs: number; failures: number }>();
+  for (const d of delegations) {
+    const counts = agentCounts.get(d.agent) || { runs: 0, failures: 0 };
+    counts.runs++;
+    if (!d.output.success) counts.failures++;
+    agentCounts.set(d.agent, counts);
+  }
+  const delegationHistory = [...agentCounts.entries()].map(([agent, c]) =>
+    `- ${agent}: ran ${c.runs}x${c.failures > 0 ? ` (${c.failures} failed)` : ''}`
+  ).join('\n');
+
+  const recentReasoning = reasoning.slice(-3).map(r => `- ${r.slice(0, 300)}`).join('\n');
+
+  const lastHumanResponse = session.metadata.lastHumanResponse as string | undefined;
+  const skippedAgents = (session.metadata.skippedAgents as AgentName[] | undefined) || [];
+  const requestedAgent = session.metadata.requestedAgent as AgentName | undefined;
+
+  const checkpoints = (session.metadata.checkpoints as Checkpoint[] | undefined) || [];
+
+  const spentUsd = (session.metadata.usage as SessionUsage | undefined)?.total.costUsd || 0;
+  const budget = budgetUsd > 0
+    ? `## Budget\nEstimated spend ${formatCost(spentUsd)} of ${formatCost(budgetUsd)}. Prefer cheaper paths as the budget runs low.`
+    : '';
+
   return `
 ## Ticket
 **Title:** ${session.metadata.issue_title || 'N/A'}
@@ -434,8 +628,24 @@ ${session.metadata.implementedFiles ? `**Implementation:** Files changed: ${(ses
 ${session.metadata.testResults ? `**Tests:** ${session.metadata.testsPassed ? 'Passed ✅' : 'Failed ❌'}` : '**Tests:** Not yet run'}
 ${session.metadata.prUrl ? `**PR:** ${session.metadata.prUrl} ✅` : '**PR:** Not yet created'}
 
+${delegationHistory ? `## Delegation History (${delegations.length} total, ${state.iterationCount} iterations so far)\n${delegationHistory}` : ''}
+
 ${recentDelegations ? `## Recent Delegations\n${recentDelegations}` : ''}
 
+${state.currentStrategy ? `## Current Strategy\n${state.currentStrategy}` : ''}
+
+${recentReasoning ? `## Your Recent Reasoning\n${recentReasoning}` : ''}
+
+${checkpoints.length > 0 ? `## Checkpoints (newest first, ✅ = tests passed)\n${formatCheckpoints(checkpoints, 5)}` : ''}
+
+${budget}
+
+${skippedAgents.length > 0 ? `## Skipped Agents\nThe human asked to skip: ${skippedAgents.join(', ')}. Do not delegate to them.` : ''}
+
+${requestedAgent ? `## Requested Agent\nThe human asked to run **${requestedAgent}** again. Delegate to it next.` : ''}
+
+${lastHumanResponse ? `## Latest Human Response\n${lastHumanResponse}\n\nDo not re-run agents whose work is already done unless the human asked for it.` : ''}
+
 ## Your Task
 Analyze the state and decide what to do next. Use tools to take action.
 `.trim();
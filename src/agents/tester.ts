@@ -1,13 +1,197 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { AgentContext, ConversationMessage } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
 import { ToolExecutor } from '../tools/executor.js';
+import { TestFailure, parseTestOutput, formatFailuresTable } from '../services/test-output.js';
 
-interface TestResult {
+export interface TestResult {
   name: string;
   passed: boolean;
   output: string;
   duration?: number;
+  command?: string;
+  skipped?: boolean;
+  failures?: TestFailure[];  // Parsed from output when the check failed
+}
+
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+interface CheckDefinition {
+  name: string;
+  scripts: string[];       // Candidate package.json script names, first match wins
+  critical: boolean;       // Non-critical failures (lint) don't fail the run
+  successOutput: string;
+}
+
+export interface PlannedCheck {
+  name: string;
+  critical: boolean;
+  successOutput: string;
+  command?: string;        // Undefined when the check is skipped
+  skipReason?: string;
+}
+
+export interface Toolchain {
+  packageManager: PackageManager;
+  checks: PlannedCheck[];
+}
+
+export interface CheckRunResult {
+  results: TestResult[];
+  allPassed: boolean;      // Every check that ran passed, including lint
+  criticalPassed: boolean; // Every critical check that ran passed
+}
+
+const CHECKS: CheckDefinition[] = [
+  { name: 'Type Check', scripts: ['type-check', 'typecheck'], critical: true, successOutput: 'No type errors' },
+  { name: 'Lint', scripts: ['lint'], critical: false, successOutput: 'No lint errors' },
+  { name: 'Build', scripts: ['build'], critical: true, successOutput: 'Build successful' },
+  { name: 'Unit Tests', scripts: ['test'], critical: true, successOutput: 'Tests passed' },
+];
+
+// What `npm init` writes when no test runner is configured
+const PLACEHOLDER_TEST_SCRIPT = /no test specified/i;
+
+/**
+ * Detect the package manager from lockfiles (or the packageManager field)
+ */
+async function detectPackageManager(repoPath: string, packageJson: Record<string, unknown>): Promise<PackageManager> {
+  const declared = String(packageJson.packageManager || '').split('@')[0];
+  if (declared === 'pnpm' || declared === 'yarn' || declared === 'npm') {
+    return declared;
+  }
+
+  const lockfiles: [string, PackageManager][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['package-lock.json', 'npm'],
+  ];
+  for (const [lockfile, manager] of lockfiles) {
+    if (await fileExists(path.join(repoPath, lockfile))) return manager;
+  }
+
+  return 'npm';
+}
+
+function scriptCommand(packageManager: PackageManager, script: string): string {
+  if (script === 'test') return `${packageManager} test`;
+  return `${packageManager} run ${script}`;
+}
+
+/**
+ * Work out which checks the target repo supports and how to run them.
+ * Checks without a matching script are skipped rather than failed.
+ */
+export async function detectToolchain(repoPath: string): Promise<Toolchain> {
+  let packageJson: Record<string, unknown>;
+  try {
+    packageJson = JSON.parse(await fs.readFile(path.join(repoPath, 'package.json'), 'utf-8'));
+  } catch {
+    return {
+      packageManager: 'npm',
+      checks: CHECKS.map(({ name, critical, successOutput }) => ({ name, critical, successOutput, skipReason: 'no package.json' })),
+    };
+  }
+
+  const packageManager = await detectPackageManager(repoPath, packageJson);
+  const scripts = (packageJson.scripts || {}) as Record<string, string>;
+  const hasTsConfig = await fileExists(path.join(repoPath, 'tsconfig.json'));
+
+  const checks = CHECKS.map((check): PlannedCheck => {
+    const { name, critical, successOutput } = check;
+    const script = check.scripts.find(s => scripts[s] && !(s === 'test' && PLACEHOLDER_TEST_SCRIPT.test(scripts[s])));
+
+    if (script) {
+      return { name, critical, successOutput, command: scriptCommand(packageManager, script) };
+    }
+
+    // No type-check script, but a TypeScript project can still be checked directly
+    if (name === 'Type Check' && hasTsConfig) {
+      return { name, critical, successOutput, command: 'npx tsc --noEmit' };
+    }
+
+    return { name, critical, successOutput, skipReason: `no "${check.scripts.join('"/"')}" script` };
+  });
+
+  return { packageManager, checks };
+}
+
+/**
+ * Run the detected checks in order
+ */
+export async function runChecks(executor: ToolExecutor, toolchain: Toolchain): Promise<CheckRunResult> {
+  const results: TestResult[] = [];
+  let allPassed = true;
+  let criticalPassed = true;
+
+  for (const check of toolchain.checks) {
+    if (!check.command) {
+      console.log(`[Tester] Skipping ${check.name}: ${check.skipReason}`);
+      results.push({ name: check.name, passed: true, skipped: true, output: `Skipped: ${check.skipReason}` });
+      continue;
+    }
+
+    console.log(`[Tester] Running ${check.name}: ${check.command}`);
+    const start = Date.now();
+    const result = await executor.execute('run_command', { command: check.command });
+
+    // Diagnostics may be on stdout (tsc, JSON reporters) or stderr, so keep both
+    const rawOutput = [result.output, result.error].filter(Boolean).join('\n') || 'No output';
+
+    results.push({
+      name: check.name,
+      command: check.command,
+      passed: result.success,
+      output: result.success ? check.successOutput : rawOutput,
+      duration: Date.now() - start,
+      failures: result.success ? undefined : parseTestOutput(rawOutput),
+    });
+
+    if (!result.success) {
+      allPassed = false;
+      if (check.critical) criticalPassed = false;
+    }
+  }
+
+  return { results, allPassed, criticalPassed };
+}
+
+/**
+ * One line per check, for GitHub comments and agent output
+ */
+export function formatResultLines(results: TestResult[]): string[] {
+  return results.map(r => {
+    if (r.skipped) return `⏭️ **${r.name}** (${r.output.replace(/^Skipped: /, 'skipped: ')})`;
+    const icon = r.passed ? '✅' : '❌';
+    const duration = r.duration ? ` (${(r.duration / 1000).toFixed(1)}s)` : '';
+    const count = r.failures?.length ? ` - ${r.failures.length} failure(s)` : '';
+    return `${icon} **${r.name}**${duration}${count}`;
+  });
+}
+
+/**
+ * A table of parsed failures per failing check, with the raw output collapsed underneath
+ */
+export function formatFailureDetails(results: TestResult[]): string {
+  return results
+    .filter(r => !r.passed)
+    .map(r => {
+      const raw = `<details>\n<summary>${r.name} output</summary>\n\n\`\`\`\n${r.output.slice(0, 2000)}\n\`\`\`\n</details>`;
+      if (!r.failures?.length) return raw;
+      return `**${r.name} failures**\n\n${formatFailuresTable(r.failures)}\n\n${raw}`;
+    })
+    .join('\n\n');
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 export async function runTester(context: AgentContext): Promise<{ passed: boolean; results: TestResult[] }> {
@@ -17,67 +201,22 @@ export async function runTester(context: AgentContext): Promise<{ passed: boolea
   if (!issue_number) throw new Error('Missing issue_number');
 
   const repoPath = process.env.REPO_PATH || process.env.GITHUB_WORKSPACE || './source-repo';
-  
+
   console.log(`Running tester for ${source_repo}#${issue_number}`);
 
   await githubService.postComment(
     source_repo,
     issue_number,
-    `🧪 **Running Tests**\n\nVerifying the implementation...`
+    `🧪 **Running Tests**\n\nVerifying the implementation...`,
+    { agent: 'tester', kind: 'status', sessionId: session.id }
   );
 
-  const executor = new ToolExecutor(repoPath);
-  const results: TestResult[] = [];
-  let allPassed = true;
+  const executor = new ToolExecutor(repoPath, { ...context.config, agent: 'tester' });
+  const toolchain = await detectToolchain(repoPath);
+  console.log(`[Tester] Package manager: ${toolchain.packageManager}`);
 
-  // Test 1: TypeScript/Type Check
-  console.log('Running type check...');
-  const typeCheckStart = Date.now();
-  const typeCheckResult = await executor.execute('run_command', { command: 'npx tsc --noEmit' });
-  results.push({
-    name: 'Type Check',
-    passed: typeCheckResult.success,
-    output: typeCheckResult.success ? 'No type errors' : (typeCheckResult.error || typeCheckResult.output),
-    duration: Date.now() - typeCheckStart,
-  });
-  if (!typeCheckResult.success) allPassed = false;
-
-  // Test 2: Lint Check
-  console.log('Running lint check...');
-  const lintStart = Date.now();
-  const lintResult = await executor.execute('run_command', { command: 'npm run lint' });
-  results.push({
-    name: 'Lint',
-    passed: lintResult.success,
-    output: lintResult.success ? 'No lint errors' : (lintResult.error || lintResult.output),
-    duration: Date.now() - lintStart,
-  });
   // Lint failures are warnings, not blockers
-  // if (!lintResult.success) allPassed = false;
-
-  // Test 3: Build
-  console.log('Running build...');
-  const buildStart = Date.now();
-  const buildResult = await executor.execute('run_command', { command: 'npm run build' });
-  results.push({
-    name: 'Build',
-    passed: buildResult.success,
-    output: buildResult.success ? 'Build successful' : (buildResult.error || buildResult.output),
-    duration: Date.now() - buildStart,
-  });
-  if (!buildResult.success) allPassed = false;
-
-  // Test 4: Unit Tests
-  console.log('Running unit tests...');
-  const testStart = Date.now();
-  const testResult = await executor.execute('run_command', { command: 'npm test' });
-  results.push({
-    name: 'Unit Tests',
-    passed: testResult.success,
-    output: testResult.output || testResult.error || 'No output',
-    duration: Date.now() - testStart,
-  });
-  if (!testResult.success) allPassed = false;
+  const { results, criticalPassed: allPassed } = await runChecks(executor, toolchain);
 
   // Save test results to session
   const testMessage: ConversationMessage = {
@@ -90,33 +229,26 @@ export async function runTester(context: AgentContext): Promise<{ passed: boolea
   await sessionService.updateMetadata(session.id, { testResults: results, testsPassed: allPassed });
 
   // Format results for GitHub comment
-  const resultLines = results.map(r => {
-    const icon = r.passed ? '✅' : '❌';
-    const duration = r.duration ? ` (${(r.duration / 1000).toFixed(1)}s)` : '';
-    return `${icon} **${r.name}**${duration}`;
-  });
-
-  const detailsSection = results
-    .filter(r => !r.passed)
-    .map(r => `<details>\n<summary>${r.name} output</summary>\n\n\`\`\`\n${r.output.slice(0, 2000)}\n\`\`\`\n</details>`)
-    .join('\n\n');
+  const resultLines = formatResultLines(results);
+  const detailsSection = formatFailureDetails(results);
 
   if (allPassed) {
     await sessionService.updatePhase(session.id, 'testing');
-    
+
     await githubService.postComment(
       source_repo,
       issue_number,
-      `🧪 **Test Results**\n\n${resultLines.join('\n')}\n\n---\n\n✅ **All tests passed!**\n\nReady to create a pull request.`
+      `🧪 **Test Results**\n\n${resultLines.join('\n')}\n\n---\n\n✅ **All tests passed!**\n\nReady to create a pull request.`,
+      { agent: 'tester', kind: 'result', sessionId: session.id }
     );
   } else {
     await githubService.postComment(
       source_repo,
       issue_number,
-      `🧪 **Test Results**\n\n${resultLines.join('\n')}\n\n${detailsSection}\n\n---\n\n❌ **Some tests failed.**\n\nThe implementation may need fixes. Review the errors above.`
+      `🧪 **Test Results**\n\n${resultLines.join('\n')}\n\n${detailsSection}\n\n---\n\n❌ **Some tests failed.**\n\nThe implementation may need fixes. Review the errors above.`,
+      { agent: 'tester', kind: 'result', sessionId: session.id }
     );
   }
 
   return { passed: allPassed, results };
 }
-
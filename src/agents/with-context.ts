@@ -1,21 +1,25 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { READ_ONLY_TOOLS } from '../tools/definitions.js';
 import { ToolExecutor } from '../tools/executor.js';
-
-const anthropic = new Anthropic();
+import { createMessage } from '../services/models.js';
+import { AgentName, CherryConfig, CompactionStats } from '../types/index.js';
+import { ContextCompactor } from '../services/compaction.js';
 
 interface ContextGatheringOptions {
   systemPrompt: string;
   userMessage: string;
   repoPath: string;
   maxIterations?: number;  // Max tool-use iterations (default: 5)
-  maxTokens?: number;
+  maxTokens?: number;       // Default; models.<role>.maxTokens in config takes precedence
+  config: CherryConfig;
+  role: AgentName;
 }
 
 interface ContextGatheringResult {
   response: string;
   toolsUsed: { tool: string; input: Record<string, unknown> }[];
   iterationCount: number;
+  compaction: CompactionStats;
 }
 
 /**
@@ -36,9 +40,11 @@ export async function runAgentWithContext(
     repoPath,
     maxIterations = 5,
     maxTokens = 2000,
+    config,
+    role,
   } = options;
 
-  const executor = new ToolExecutor(repoPath);
+  const executor = new ToolExecutor(repoPath, { ...config, agent: role });
   const toolsUsed: { tool: string; input: Record<string, unknown> }[] = [];
   
   // Enhanced system prompt that encourages codebase exploration
@@ -49,6 +55,8 @@ You have READ-ONLY access to the codebase. Before responding, you SHOULD explore
 - Understand the project structure (list_directory with ".")
 - Read relevant files (package.json, key components, configs)
 - Search for patterns or existing implementations (search_code)
+- Follow call graphs in TypeScript/JavaScript (find_definition, find_references, list_exports, get_type_of)
+- See why code looks the way it does (git_log, git_blame, then git_show for a commit)
 
 This helps you give accurate, context-aware responses instead of generic advice.
 
@@ -62,6 +70,7 @@ Guidelines for exploration:
   const messages: Anthropic.MessageParam[] = [
     { role: 'user', content: userMessage },
   ];
+  const compactor = new ContextCompactor(config.compaction, role, { system: enhancedSystemPrompt, tools: READ_ONLY_TOOLS });
 
   let iterationCount = 0;
 
@@ -69,13 +78,14 @@ Guidelines for exploration:
     iterationCount++;
     console.log(`[Agent] Iteration ${iterationCount}/${maxIterations}`);
 
-    const response = await anthropic.messages.create({
-      model: 'claude-sonnet-4-20250514',
+    compactor.compact(messages);
+    const response = await createMessage(config, role, {
       max_tokens: maxTokens,
       system: enhancedSystemPrompt,
       tools: READ_ONLY_TOOLS,
       messages,
     });
+    compactor.observe(messages, response.usage);
 
     // Check if agent wants to use tools
     const toolUseBlocks = response.content.filter(
@@ -92,6 +102,7 @@ Guidelines for exploration:
         response: textBlock?.text || 'No response generated',
         toolsUsed,
         iterationCount,
+        compaction: compactor.stats,
       };
     }
 
@@ -130,6 +141,7 @@ Guidelines for exploration:
           response: textBlock.text,
           toolsUsed,
           iterationCount,
+          compaction: compactor.stats,
         };
       }
     }
@@ -138,8 +150,8 @@ Guidelines for exploration:
   // Max iterations reached - make one final call without tools to get response
   console.log('[Agent] Max iterations reached, requesting final response');
   
-  const finalResponse = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
+  compactor.compact(messages);
+  const finalResponse = await createMessage(config, role, {
     max_tokens: maxTokens,
     system: systemPrompt, // Use original prompt without tool instructions
     messages: [
@@ -159,6 +171,7 @@ Guidelines for exploration:
     response: textBlock?.text || 'No response generated',
     toolsUsed,
     iterationCount,
+    compaction: compactor.stats,
   };
 }
 
@@ -0,0 +1,251 @@
+#!/usr/bin/env node
+import 'dotenv/config';
+import { EventPayload, SessionUsage } from './types/index.js';
+
+const USAGE = `Usage: cherry <command> [options]
+
+Commands:
+  start <repo> <issue>            Start (or resume) the Team Lead for an issue
+  start-pipeline <repo> <issue>   Start the legacy pipeline for an issue
+  reply <repo> <issue> "<text>"   Send a human response, as if commented on the issue
+  implement <repo> <issue>        Trigger the implementer (pipeline mode)
+  test <repo> <issue>             Run tests and create a PR if they pass (pipeline mode)
+  create-pr <repo> <issue>        Create a PR from the current changes (pipeline mode)
+  stop <repo> <issue>             Cancel the active session
+  status <repo> <issue>           Print the session state
+  webhook <fixture.json>          Map a recorded GitHub webhook to an event and print it
+
+Options:
+  --author <login>   Comment author / sender (default: $USER)
+  --repo-path <dir>  Local checkout of the target repo (default: $REPO_PATH)
+  --event <name>     Webhook event name (default: fixture file name up to the first dot)
+  --send <url>       webhook: POST the fixture, signed with $WEBHOOK_SECRET, to a running server
+  --dispatch         webhook: run the mapped event through the orchestrator
+
+Examples:
+  cherry start my-org/my-app 42
+  cherry reply my-org/my-app 42 "/approve"
+  cherry webhook fixtures/webhooks/issues.labeled.json --send http://localhost:3000/webhook`;
+
+// CLI command -> orchestrator event type
+const EVENT_TYPES: Record<string, string> = {
+  start: 'agent_start',
+  'start-pipeline': 'agent_start_pipeline',
+  reply: 'human_response',
+  implement: 'agent_implement',
+  test: 'agent_test',
+  'create-pr': 'agent_create_pr',
+  stop: 'agent_stop',
+};
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  options: Record<string, string>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '-h' || arg === '--help') {
+      options.help = 'true';
+    } else if (arg === '--dispatch') {
+      options.dispatch = 'true';
+    } else if (arg.startsWith('--')) {
+      const [key, inlineValue] = arg.slice(2).split('=', 2);
+      options[key] = inlineValue ?? argv[++i] ?? '';
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, ...rest] = positional;
+  return { command, positional: rest, options };
+}
+
+function parseTarget(positional: string[]): { repo: string; issueNumber: number } {
+  const [repo, issue] = positional;
+
+  if (!repo || !/^[\w.-]+\/[\w.-]+$/.test(repo)) {
+    throw new Error(`Expected <owner>/<repo>, got: ${repo || '(nothing)'}`);
+  }
+
+  const issueNumber = Number(issue);
+  if (!Number.isInteger(issueNumber) || issueNumber <= 0) {
+    throw new Error(`Expected an issue number, got: ${issue || '(nothing)'}`);
+  }
+
+  return { repo, issueNumber };
+}
+
+async function buildPayload(
+  command: string,
+  repo: string,
+  issueNumber: number,
+  positional: string[],
+  author: string
+): Promise<EventPayload> {
+  const payload: EventPayload = {
+    action: command,
+    source_repo: repo,
+    issue_number: issueNumber,
+    sender: author,
+  };
+
+  if (command === 'start' || command === 'start-pipeline' || command === 'implement') {
+    // Mirror what on-label.yml sends from the issue event
+    const { githubService } = await import('./services/github.js');
+    const issue = await githubService.getIssue(repo, issueNumber);
+    payload.issue_title = issue.title;
+    payload.issue_body = issue.body || '';
+  }
+
+  if (command === 'reply') {
+    const text = positional.slice(2).join(' ').trim();
+    if (!text) throw new Error('Missing reply text');
+    payload.comment_body = text;
+    payload.comment_author = author;
+  }
+
+  return payload;
+}
+
+async function printStatus(repo: string, issueNumber: number): Promise<void> {
+  const { sessionService } = await import('./services/session.js');
+  const session = await sessionService.getSession(repo, issueNumber);
+
+  if (!session) {
+    console.log(`No session found for ${repo}#${issueNumber}`);
+    return;
+  }
+
+  const state = session.team_lead_state || {};
+  const delegations = state.delegations || [];
+
+  console.log(`Session ${session.id} (${repo}#${issueNumber})`);
+  console.log(`  Mode:    ${session.metadata.mode || 'pipeline'}`);
+  console.log(`  Phase:   ${session.current_phase}`);
+  console.log(`  Status:  ${session.status}`);
+  console.log(`  Updated: ${session.updated_at}`);
+  if (session.metadata.prUrl) console.log(`  PR:      ${session.metadata.prUrl}`);
+  if (state.currentStrategy) console.log(`  Strategy: ${state.currentStrategy}`);
+
+  const usage = session.metadata.usage as SessionUsage | undefined;
+  if (usage) {
+    console.log(`  Cost:    ~$${usage.total.costUsd.toFixed(4)} (${usage.total.calls} calls, ${usage.total.inputTokens} in / ${usage.total.outputTokens} out tokens)`);
+  }
+
+  if (delegations.length > 0) {
+    console.log(`\nDelegations (${delegations.length}):`);
+    for (const d of delegations) {
+      console.log(`  ${d.timestamp}  ${d.output.success ? 'ok  ' : 'FAIL'}  ${d.agent}`);
+    }
+  }
+
+  const lastMessage = session.conversation[session.conversation.length - 1];
+  if (lastMessage) {
+    console.log(`\nLast message (${lastMessage.role}, ${lastMessage.timestamp}):\n${lastMessage.content.slice(0, 1000)}`);
+  }
+}
+
+/**
+ * Replay a recorded webhook: print how it maps, send it to a server, or dispatch it
+ */
+async function replayWebhook(positional: string[], options: Record<string, string>): Promise<void> {
+  const [fixture] = positional;
+  if (!fixture) throw new Error('Missing webhook fixture (a JSON file with the delivery body)');
+
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const rawBody = await fs.readFile(fixture, 'utf-8');
+  const eventName = options.event || path.basename(fixture).split('.')[0];
+
+  if (options.send) {
+    const { signPayload } = await import('./services/webhooks.js');
+    const secret = process.env.WEBHOOK_SECRET;
+    if (!secret) throw new Error('Missing WEBHOOK_SECRET');
+
+    const response = await fetch(options.send, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-GitHub-Event': eventName,
+        'X-GitHub-Delivery': `cli-${Date.now()}`,
+        'X-Hub-Signature-256': signPayload(secret, rawBody),
+      },
+      body: rawBody,
+    });
+    console.log(`${response.status} ${await response.text()}`);
+    return;
+  }
+
+  const { mapWebhook } = await import('./services/webhooks.js');
+  const { loadRepoConfig, DEFAULT_CONFIG } = await import('./services/config.js');
+  const config = process.env.REPO_PATH ? await loadRepoConfig(process.env.REPO_PATH) : DEFAULT_CONFIG;
+  const mapping = mapWebhook(eventName, JSON.parse(rawBody), config.labels);
+
+  if ('ignored' in mapping) {
+    console.log(`Ignored: ${mapping.ignored}`);
+    return;
+  }
+
+  console.log(`Event: ${mapping.eventType}\nPayload: ${JSON.stringify(mapping.payload, null, 2)}`);
+  if (options.dispatch) {
+    const { orchestrator } = await import('./orchestrator.js');
+    await orchestrator(mapping.eventType, mapping.payload);
+  }
+}
+
+async function main() {
+  const { command, positional, options } = parseArgs(process.argv.slice(2));
+
+  if (!command || options.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  if (command !== 'status' && command !== 'webhook' && !EVENT_TYPES[command]) {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    process.exit(1);
+  }
+
+  if (options['repo-path']) {
+    process.env.REPO_PATH = options['repo-path'];
+  }
+
+  if (command === 'webhook') {
+    await replayWebhook(positional, options);
+    return;
+  }
+
+  const { repo, issueNumber } = parseTarget(positional);
+
+  if (command === 'status') {
+    await printStatus(repo, issueNumber);
+    return;
+  }
+
+  if (!process.env.REPO_PATH) {
+    console.warn('REPO_PATH is not set; agents will use ./source-repo');
+  }
+
+  const author = options.author || process.env.USER || 'local-cli';
+  const payload = await buildPayload(command, repo, issueNumber, positional, author);
+  const eventType = EVENT_TYPES[command];
+
+  console.log(`Processing event: ${eventType}`);
+
+  // Imported lazily so --help and argument errors work without credentials
+  const { orchestrator } = await import('./orchestrator.js');
+  await orchestrator(eventType, payload);
+
+  console.log('Event processed successfully');
+}
+
+main().catch((error) => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -1,9 +1,10 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
+import { requireRole } from '../services/authorization.js';
 import { runClarifier } from '../agents/clarifier.js';
 
-export async function handleAgentStart(payload: EventPayload): Promise<void> {
+export async function handleAgentStart(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number, issue_title, issue_body, sender } = payload;
 
   if (!issue_number || !source_repo) {
@@ -12,6 +13,8 @@ export async function handleAgentStart(payload: EventPayload): Promise<void> {
 
   console.log(`Starting agent session for ${source_repo}#${issue_number}`);
 
+  if (!await requireRole(payload, config, 'start', sender)) return;
+
   // Check for existing session
   let session = await sessionService.getSession(source_repo, issue_number);
 
@@ -20,7 +23,8 @@ export async function handleAgentStart(payload: EventPayload): Promise<void> {
     await githubService.postComment(
       source_repo,
       issue_number,
-      '🤖 Agent session is already active. Continuing from where we left off...'
+      '🤖 Agent session is already active. Continuing from where we left off...',
+      { agent: 'orchestrator', kind: 'status', sessionId: session.id }
     );
   } else {
     // Create new session
@@ -33,7 +37,8 @@ export async function handleAgentStart(payload: EventPayload): Promise<void> {
     await githubService.postComment(
       source_repo,
       issue_number,
-      `🤖 **Agent Session Started**\n\nI'll help refine this ticket through a few phases:\n1. **Clarifying** - Understanding the requirements\n2. **Scoping** - Defining boundaries and acceptance criteria\n3. **Designing** - Technical approach\n4. **Planning** - Breaking into tasks\n\nLet me start by asking some clarifying questions...`
+      `🤖 **Agent Session Started**\n\nI'll help refine this ticket through a few phases:\n1. **Clarifying** - Understanding the requirements\n2. **Scoping** - Defining boundaries and acceptance criteria\n3. **Designing** - Technical approach\n4. **Planning** - Breaking into tasks\n\nLet me start by asking some clarifying questions...`,
+      { agent: 'orchestrator', kind: 'status', sessionId: session.id }
     );
   }
 
@@ -42,6 +47,7 @@ export async function handleAgentStart(payload: EventPayload): Promise<void> {
     session,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   });
 }
 
@@ -1,8 +1,9 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
+import { requireRole } from '../services/authorization.js';
 
-export async function handleAgentStop(payload: EventPayload): Promise<void> {
+export async function handleAgentStop(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number, sender } = payload;
 
   if (!issue_number || !source_repo) {
@@ -18,17 +19,20 @@ export async function handleAgentStop(payload: EventPayload): Promise<void> {
     return;
   }
 
-  if (session.status !== 'active') {
+  if (session.status !== 'active' && session.status !== 'paused') {
     console.log(`Session already ${session.status}`);
     return;
   }
 
+  if (!await requireRole(payload, config, 'stop', sender, session)) return;
+
   await sessionService.updateStatus(session.id, 'cancelled');
 
   await githubService.postComment(
     source_repo,
     issue_number,
-    `🛑 **Agent Session Stopped**\n\nSession cancelled by @${sender || 'unknown'}.\n\nTo restart, add the \`agent:start\` label again.`
+    `🛑 **Agent Session Stopped**\n\nSession cancelled by @${sender || 'unknown'}.\n\nTo restart, add the \`${config.labels.start}\` label again.`,
+    { agent: 'orchestrator', kind: 'status', sessionId: session.id }
   );
 }
 
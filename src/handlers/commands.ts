@@ -0,0 +1,203 @@
+import { EventPayload, AgentSession, AgentName, CherryConfig, CommentKind, SessionUsage } from '../types/index.js';
+import { sessionService } from '../services/session.js';
+import { githubService } from '../services/github.js';
+import { rollbackSession } from '../services/checkpoints.js';
+import { ParsedReply, SlashCommand, formatCommandHelp } from '../services/commands.js';
+import { formatCost } from '../services/usage.js';
+import { ToolExecutor } from '../tools/executor.js';
+import { handleAgentStop } from './agent-stop.js';
+
+// Commands that make sense without the Team Lead (pipeline sessions)
+const PIPELINE_COMMANDS: SlashCommand['name'][] = ['stop', 'status', 'rollback'];
+
+/**
+ * Record a slash command in the conversation, apply it to the session and acknowledge
+ * it with a comment. Returns true when the Team Lead should run next.
+ */
+export async function handleCommand(
+  reply: Exclude<ParsedReply, { type: 'text' }>,
+  payload: EventPayload,
+  config: CherryConfig,
+  session: AgentSession
+): Promise<boolean> {
+  const { source_repo, issue_number, comment_body, comment_author } = payload;
+  if (!issue_number) return false;
+
+  await sessionService.addMessage(session.id, {
+    role: 'user',
+    content: comment_body || '',
+    timestamp: new Date().toISOString(),
+    metadata: {
+      author: comment_author,
+      phase: session.metadata.mode === 'team-lead' ? 'team-lead' : session.current_phase,
+      command: reply.type === 'command' ? reply.command.name : reply.name,
+    },
+  });
+
+  const acknowledge = (body: string, kind: CommentKind = 'status') =>
+    githubService.postComment(source_repo, issue_number, body, { agent: 'team-lead', kind, sessionId: session.id });
+  // What the Team Lead reads as the latest human input
+  const tellTeamLead = (message: string) => sessionService.updateMetadata(session.id, {
+    lastHumanResponse: message,
+    lastHumanResponseAt: new Date().toISOString(),
+  });
+  const who = comment_author ? `@${comment_author}` : 'A human';
+
+  if (reply.type === 'invalid') {
+    await acknowledge(`⚠️ **Invalid \`/${reply.name}\`**\n\n${reply.error}`, 'error');
+    return false;
+  }
+
+  const { command } = reply;
+  console.log(`[Commands] /${command.name} from ${comment_author || 'unknown'} on ${source_repo}#${issue_number}`);
+
+  if (session.metadata.mode !== 'team-lead' && !PIPELINE_COMMANDS.includes(command.name)) {
+    await acknowledge(`⚠️ \`/${command.name}\` only works in Team Lead sessions. Available here: ${PIPELINE_COMMANDS.map(c => `\`/${c}\``).join(', ')}.`, 'error');
+    return false;
+  }
+
+  const pendingPlan = session.metadata.pending_claude_code_plan as string | undefined;
+  const skipped = (session.metadata.skippedAgents as AgentName[] | undefined) || [];
+
+  switch (command.name) {
+    case 'approve':
+    case 'reject':
+    case 'modify':
+    case 'basic': {
+      if (!pendingPlan && command.name !== 'basic') {
+        await acknowledge(`⚠️ There is no Claude Code plan waiting for approval, so there is nothing to \`/${command.name}\`.`, 'error');
+        return false;
+      }
+
+      if (command.name === 'approve') {
+        await sessionService.updateMetadata(session.id, {
+          approved_claude_code_plan: pendingPlan,
+          pending_claude_code_plan: null,
+          plan_modifications: null,
+        });
+        await tellTeamLead(`${who} approved the Claude Code plan. Delegate to the implementer to execute it.`);
+        await acknowledge('✅ **Plan approved.** Executing it with Claude Code...');
+        return true;
+      }
+
+      if (command.name === 'modify') {
+        await sessionService.updateMetadata(session.id, { pending_claude_code_plan: null, plan_modifications: command.feedback });
+        await tellTeamLead(`${who} asked for changes to the Claude Code plan:\n${command.feedback}\n\nDelegate to the implementer to generate a revised plan.`);
+        await acknowledge('📝 **Plan changes noted.** Generating a revised plan...');
+        return true;
+      }
+
+      if (command.name === 'basic') {
+        await sessionService.updateMetadata(session.id, { pending_claude_code_plan: null, use_basic_tools: true });
+        await tellTeamLead(`${who} chose basic tools instead of Claude Code. Delegate to the implementer.`);
+        await acknowledge('👍 **Switching to basic tools** for the implementation...');
+        return true;
+      }
+
+      // Rejected: wait for the human to say how to proceed
+      await sessionService.updateMetadata(session.id, {
+        pending_claude_code_plan: null,
+        rejected_claude_code_plan: pendingPlan,
+      });
+      await tellTeamLead(`${who} rejected the Claude Code plan${command.reason ? `: ${command.reason}` : '.'} Do not execute it.`);
+      await sessionService.updateStatus(session.id, 'paused');
+      await acknowledge(`🚫 **Plan rejected.**${command.reason ? `\n\n> ${command.reason.split('\n').join('\n> ')}` : ''}\n\nReply with instructions, \`/modify <feedback>\` or \`/basic\` to continue.`);
+      return false;
+    }
+
+    case 'skip': {
+      await sessionService.updateMetadata(session.id, {
+        skippedAgents: [...new Set([...skipped, command.agent])],
+        ...(session.metadata.requestedAgent === command.agent ? { requestedAgent: null } : {}),
+      });
+      await tellTeamLead(`${who} asked to skip the ${command.agent} agent. Continue without it.`);
+      await acknowledge(`⏭️ **Skipping ${command.agent}.** The Team Lead will not delegate to it again; \`/retry ${command.agent}\` undoes this.`);
+      return true;
+    }
+
+    case 'retry': {
+      await sessionService.updateMetadata(session.id, {
+        skippedAgents: skipped.filter(agent => agent !== command.agent),
+        requestedAgent: command.agent,
+      });
+      await tellTeamLead(`${who} asked to run the ${command.agent} agent again.`);
+      await acknowledge(`🔁 **Running ${command.agent} again.**`);
+      return true;
+    }
+
+    case 'stop': {
+      // Same as the stop label; a running Team Lead stops after its current iteration
+      await handleAgentStop({ ...payload, sender: comment_author }, config);
+      return false;
+    }
+
+    case 'status': {
+      await acknowledge(formatSessionStatus(session, config));
+      return false;
+    }
+
+    case 'budget': {
+      await sessionService.updateMetadata(session.id, { budgetUsd: command.usd });
+      const resume = session.status === 'paused';
+      await tellTeamLead(`${who} set the session budget to ${command.usd > 0 ? formatCost(command.usd) : 'unlimited'}.`);
+      await acknowledge(`💰 **Session budget set to ${command.usd > 0 ? formatCost(command.usd) : 'no limit'}.**${resume ? ' Resuming...' : ''}`);
+      return resume;
+    }
+
+    case 'rollback':
+      await runRollback(payload, config, session, command.checkpointId);
+      return false;
+  }
+}
+
+async function runRollback(payload: EventPayload, config: CherryConfig, session: AgentSession, checkpointId?: string): Promise<void> {
+  const { source_repo, issue_number, comment_author } = payload;
+  if (!issue_number) return;
+
+  const repoPath = process.env.REPO_PATH || process.env.GITHUB_WORKSPACE || './source-repo';
+  const result = await rollbackSession(new ToolExecutor(repoPath, config), session, config, checkpointId);
+
+  if (!result.success || !result.checkpoint) {
+    await githubService.postComment(source_repo, issue_number, `⚠️ **Rollback failed**\n\n${result.output}`, {
+      agent: 'team-lead',
+      kind: 'error',
+      sessionId: session.id,
+    });
+    return;
+  }
+
+  const short = result.checkpoint.id.slice(0, 7);
+  await sessionService.updateMetadata(session.id, {
+    lastHumanResponse: `${comment_author || 'A human'} rolled the working tree back to checkpoint ${short} (${result.checkpoint.label}). Changes made after it are gone.`,
+    lastHumanResponseAt: new Date().toISOString(),
+  });
+
+  const files = result.changedPaths.slice(0, 20).map(f => `- \`${f}\``).join('\n');
+  await githubService.postComment(
+    source_repo,
+    issue_number,
+    `↩️ **Rolled back** to checkpoint \`${short}\` (${result.checkpoint.label})\n\n${result.output}${files ? `\n\n${files}` : ''}${result.backup ? `\n\n_The previous state was saved as \`${result.backup.id.slice(0, 7)}\`; comment \`/rollback ${result.backup.id.slice(0, 7)}\` to undo._` : ''}\n\n_Reply to this issue to continue._`,
+    { agent: 'team-lead', kind: 'status', sessionId: session.id }
+  );
+}
+
+function formatSessionStatus(session: AgentSession, config: CherryConfig): string {
+  const usage = session.metadata.usage as SessionUsage | undefined;
+  const budgetUsd = (session.metadata.budgetUsd as number | undefined) ?? config.limits.sessionBudgetUsd;
+  const delegations = session.team_lead_state?.delegations || [];
+  const skipped = (session.metadata.skippedAgents as AgentName[] | undefined) || [];
+  const last = delegations[delegations.length - 1];
+
+  const lines = [
+    `- **Mode:** ${session.metadata.mode || 'pipeline'}`,
+    `- **Phase:** ${session.current_phase}`,
+    `- **Status:** ${session.status}`,
+    `- **Cost:** ~${formatCost(usage?.total.costUsd || 0)}${budgetUsd > 0 ? ` of ${formatCost(budgetUsd)}` : ''}`,
+    `- **Delegations:** ${delegations.length}${last ? ` (last: ${last.agent}, ${last.output.success ? 'succeeded' : 'failed'})` : ''}`,
+    session.metadata.pending_claude_code_plan ? '- **Waiting for:** approval of the Claude Code plan' : '',
+    skipped.length > 0 ? `- **Skipped agents:** ${skipped.join(', ')}` : '',
+    session.metadata.prUrl ? `- **PR:** ${session.metadata.prUrl}` : '',
+  ].filter(Boolean);
+
+  return `📊 **Session status**\n\n${lines.join('\n')}\n\n<details>\n<summary>Commands</summary>\n\n${formatCommandHelp()}\n</details>`;
+}
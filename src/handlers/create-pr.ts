@@ -1,9 +1,9 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
 import { runPRCreator } from '../agents/pr-creator.js';
 
-export async function handleCreatePR(payload: EventPayload): Promise<void> {
+export async function handleCreatePR(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number } = payload;
 
   if (!issue_number || !source_repo) {
@@ -18,7 +18,8 @@ export async function handleCreatePR(payload: EventPayload): Promise<void> {
     await githubService.postComment(
       source_repo,
       issue_number,
-      '❌ No agent session found for this issue.'
+      '❌ No agent session found for this issue.',
+      { agent: 'orchestrator', kind: 'error' }
     );
     return;
   }
@@ -27,6 +28,7 @@ export async function handleCreatePR(payload: EventPayload): Promise<void> {
     session,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   });
 }
 
@@ -1,12 +1,15 @@
-import { EventPayload, ConversationMessage } from '../types/index.js';
+import { EventPayload, ConversationMessage, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
+import { requireRole } from '../services/authorization.js';
+import { parseReply, replyAction } from '../services/commands.js';
+import { handleCommand } from './commands.js';
 import { runClarifier } from '../agents/clarifier.js';
 import { runScope } from '../agents/scope.js';
 import { runDesigner } from '../agents/designer.js';
 import { runPlanner } from '../agents/planner.js';
 
-export async function handleHumanResponse(payload: EventPayload): Promise<void> {
+export async function handleHumanResponse(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number, comment_body, comment_author } = payload;
 
   if (!issue_number || !source_repo || !comment_body) {
@@ -27,6 +30,15 @@ export async function handleHumanResponse(payload: EventPayload): Promise<void>
     return;
   }
 
+  const reply = parseReply(comment_body);
+  if (!await requireRole(payload, config, replyAction(reply), comment_author, session)) return;
+
+  // Pipeline sessions accept /stop, /status and /rollback; none of them runs the next phase
+  if (reply.type !== 'text') {
+    await handleCommand(reply, payload, config, session);
+    return;
+  }
+
   // Add the human message to conversation history
   const humanMessage: ConversationMessage = {
     role: 'user',
@@ -45,6 +57,7 @@ export async function handleHumanResponse(payload: EventPayload): Promise<void>
     session: updatedSession,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   };
 
   // Route to appropriate agent based on current phase
@@ -69,7 +82,8 @@ export async function handleHumanResponse(payload: EventPayload): Promise<void>
       await githubService.postComment(
         source_repo,
         issue_number,
-        '✅ This ticket has already been fully processed. All phases are complete!'
+        '✅ This ticket has already been fully processed. All phases are complete!',
+        { agent: 'orchestrator', kind: 'status', sessionId: session.id }
       );
       break;
 
@@ -1,12 +1,13 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
+import { requireRole } from '../services/authorization.js';
 import { runImplementer } from '../agents/implementer.js';
 import { runTester } from '../agents/tester.js';
 import { runPRCreator } from '../agents/pr-creator.js';
 
-export async function handleImplement(payload: EventPayload): Promise<void> {
-  const { source_repo, issue_number } = payload;
+export async function handleImplement(payload: EventPayload, config: CherryConfig): Promise<void> {
+  const { source_repo, issue_number, sender } = payload;
 
   if (!issue_number || !source_repo) {
     throw new Error('Missing required fields: source_repo, issue_number');
@@ -14,13 +15,16 @@ export async function handleImplement(payload: EventPayload): Promise<void> {
 
   console.log(`Starting implementation for ${source_repo}#${issue_number}`);
 
+  if (!await requireRole(payload, config, 'implement', sender)) return;
+
   let session = await sessionService.getSession(source_repo, issue_number);
 
   if (!session) {
     await githubService.postComment(
       source_repo,
       issue_number,
-      '❌ No agent session found. Please start with the `agent:start` label first to go through clarification, scoping, and design phases.'
+      `❌ No agent session found. Please start with the \`${config.labels.start}\` label first to go through clarification, scoping, and design phases.`,
+      { agent: 'orchestrator', kind: 'error' }
     );
     return;
   }
@@ -29,7 +33,8 @@ export async function handleImplement(payload: EventPayload): Promise<void> {
     await githubService.postComment(
       source_repo,
       issue_number,
-      `❌ Cannot implement yet. Current phase: **${session.current_phase}**\n\nPlease complete all planning phases first.`
+      `❌ Cannot implement yet. Current phase: **${session.current_phase}**\n\nPlease complete all planning phases first.`,
+      { agent: 'orchestrator', kind: 'error', sessionId: session.id }
     );
     return;
   }
@@ -42,6 +47,7 @@ export async function handleImplement(payload: EventPayload): Promise<void> {
     session,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   });
 
   // Refresh session to check if implementation completed
@@ -57,6 +63,7 @@ export async function handleImplement(payload: EventPayload): Promise<void> {
     session,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   };
 
   const { passed } = await runTester(context);
@@ -70,6 +77,7 @@ export async function handleImplement(payload: EventPayload): Promise<void> {
         session: updatedSession,
         payload,
         githubToken: process.env.GITHUB_TOKEN!,
+        config,
       });
     }
   }
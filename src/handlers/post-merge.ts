@@ -22,7 +22,8 @@ export async function handlePostMerge(payload: EventPayload): Promise<void> {
       await githubService.postComment(
         source_repo,
         issue_number,
-        `🎉 **Agent Session Complete**\n\nThe related PR #${pr_number} has been merged.\n\nSession summary:\n- Started: ${session.created_at}\n- Phases completed: clarifying → scoping → designing → planning → merged\n- Total messages: ${session.conversation.length}`
+        `🎉 **Agent Session Complete**\n\nThe related PR #${pr_number} has been merged.\n\nSession summary:\n- Started: ${session.created_at}\n- Phases completed: clarifying → scoping → designing → planning → merged\n- Total messages: ${session.conversation.length}`,
+        { agent: 'orchestrator', kind: 'result', sessionId: session.id }
       );
     }
   }
@@ -1,12 +1,10 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
-import Anthropic from '@anthropic-ai/sdk';
+import { createMessage } from '../services/models.js';
 
-const anthropic = new Anthropic();
-
-export async function handleQAReview(payload: EventPayload): Promise<void> {
-  const { source_repo, pr_number, pr_title, pr_body, diff, issue_number } = payload;
+export async function handleQAReview(payload: EventPayload, config: CherryConfig): Promise<void> {
+  const { source_repo, pr_number, pr_title, pr_body, issue_number } = payload;
 
   if (!source_repo || !pr_number) {
     throw new Error('Missing required fields: source_repo, pr_number');
@@ -14,6 +12,9 @@ export async function handleQAReview(payload: EventPayload): Promise<void> {
 
   console.log(`Running QA review for ${source_repo}#${pr_number}`);
 
+  // Webhook deliveries don't include the diff
+  const diff = payload.diff || await githubService.getPullRequestDiff(source_repo, pr_number);
+
   // Get the related session if there's a linked issue
   let sessionContext = '';
   if (issue_number) {
@@ -23,8 +24,7 @@ export async function handleQAReview(payload: EventPayload): Promise<void> {
     }
   }
 
-  const message = await anthropic.messages.create({
-    model: 'claude-sonnet-4-20250514',
+  const message = await createMessage(config, 'qa-review', {
     max_tokens: 2048,
     messages: [
       {
@@ -56,7 +56,8 @@ Keep your response focused and actionable.`,
   await githubService.postComment(
     source_repo,
     pr_number,
-    `🔍 **Automated QA Review**\n\n${reviewContent}`
+    `🔍 **Automated QA Review**\n\n${reviewContent}`,
+    { agent: 'qa-review', kind: 'result' }
   );
 }
 
@@ -1,9 +1,12 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, AgentSession, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
 import { runTeamLead } from '../agents/team-lead.js';
+import { parseReply, replyAction } from '../services/commands.js';
+import { requireRole } from '../services/authorization.js';
+import { handleCommand } from './commands.js';
 
-export async function handleTeamLead(payload: EventPayload): Promise<void> {
+export async function handleTeamLead(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number, issue_title, issue_body, sender } = payload;
 
   if (!issue_number || !source_repo) {
@@ -12,6 +15,8 @@ export async function handleTeamLead(payload: EventPayload): Promise<void> {
 
   console.log(`[TeamLeadHandler] Starting for ${source_repo}#${issue_number}`);
 
+  if (!await requireRole(payload, config, 'start', sender)) return;
+
   // Get or create session
   let session = await sessionService.getSession(source_repo, issue_number);
 
@@ -23,42 +28,39 @@ export async function handleTeamLead(payload: EventPayload): Promise<void> {
       started_by: sender,
       mode: 'team-lead',
     });
-
-    await githubService.postComment(
-      source_repo,
-      issue_number,
-      `🤖 **Team Lead Agent Started**\n\nI'll manage this ticket through completion. I have a team of specialist agents I can delegate to:\n\n- 🔍 Clarifier - Understanding requirements\n- 📋 Scope - Defining boundaries\n- 🏗️ Designer - Technical approach\n- 📝 Planner - Implementation tasks\n- 🔧 Implementer - Writing code\n- 🧪 Tester - Verifying changes\n- 🚀 PR Creator - Opening pull request\n\nAnalyzing the ticket now...`
-    );
   } else if (session.status === 'paused') {
-    // Resume paused session
+    // Resume paused session; the status board shows it picked up again
     await sessionService.updateStatus(session.id, 'active');
-    
-    await githubService.postComment(
-      source_repo,
-      issue_number,
-      `🤖 **Team Lead Agent Resumed**\n\nContinuing from where we left off...`
-    );
   } else if (session.status === 'completed') {
     await githubService.postComment(
       source_repo,
       issue_number,
-      `✅ This ticket has already been completed. Remove the \`agent:complete\` label and add \`agent:start\` again if you want to re-process.`
+      `✅ This ticket has already been completed. Remove the \`${config.labels.complete}\` label and add \`${config.labels.start}\` again if you want to re-process.`,
+      { agent: 'team-lead', kind: 'status', sessionId: session.id }
     );
     return;
   }
 
-  // Run the Team Lead
-  const result = await runTeamLead({
-    session,
-    payload,
-    githubToken: process.env.GITHUB_TOKEN!,
+  // Run the Team Lead (one run per session at a time)
+  const result = await sessionService.withLock(session.id, async () => {
+    const lockedSession = await sessionService.getSession(source_repo, issue_number);
+    if (!lockedSession) return null;
+
+    return runTeamLead({
+      session: lockedSession,
+      payload,
+      githubToken: process.env.GITHUB_TOKEN!,
+      config,
+    });
   });
 
+  if (!result) return;
+
   console.log(`[TeamLeadHandler] Finished with status: ${result.status}`);
   console.log(`[TeamLeadHandler] Delegations: ${result.delegations.length}`);
 }
 
-export async function handleTeamLeadHumanResponse(payload: EventPayload): Promise<void> {
+export async function handleTeamLeadHumanResponse(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number, comment_body, comment_author } = payload;
 
   if (!issue_number || !source_repo || !comment_body) {
@@ -67,23 +69,61 @@ export async function handleTeamLeadHumanResponse(payload: EventPayload): Promis
 
   console.log(`[TeamLeadHandler] Processing human response for ${source_repo}#${issue_number}`);
 
-  const session = await sessionService.getSession(source_repo, issue_number);
+  const existingSession = await sessionService.getSession(source_repo, issue_number);
 
-  if (!session) {
+  if (!existingSession) {
     console.log('No session found for this issue');
     return;
   }
 
-  if (session.status !== 'active' && session.status !== 'paused') {
-    console.log(`Session is ${session.status}, ignoring response`);
+  if (existingSession.status !== 'active' && existingSession.status !== 'paused') {
+    console.log(`Session is ${existingSession.status}, ignoring response`);
     return;
   }
 
+  // Checked before taking the lock, so rejected comments don't wait for a running Team Lead
+  const reply = parseReply(comment_body);
+  if (!await requireRole(payload, config, replyAction(reply), comment_author, existingSession)) return;
+
+  // Slash commands only change session state, so they apply at once, even while a run holds
+  // the lock; the running Team Lead picks them up after its current iteration. /rollback
+  // restores files, so it waits for the lock.
+  const waitsForLock = reply.type === 'command' && reply.command.name === 'rollback';
+  if (reply.type !== 'text' && !waitsForLock) {
+    if (!await handleCommand(reply, payload, config, existingSession)) return;
+  }
+
+  // Back-to-back comments queue up behind the current run instead of running in parallel
+  await sessionService.withLock(existingSession.id, async () => {
+    // Re-read: the run we waited for may have changed the session
+    const session = await sessionService.getSession(source_repo, issue_number);
+    if (!session) return;
+
+    if (session.status !== 'active' && session.status !== 'paused') {
+      console.log(`Session is ${session.status}, not resuming`);
+      return;
+    }
+
+    if (reply.type === 'text') {
+      await continueWithHumanResponse(payload, config, session);
+    } else if (!waitsForLock || await handleCommand(reply, payload, config, session)) {
+      await resumeTeamLead(payload, config, session);
+    }
+  });
+}
+
+async function continueWithHumanResponse(payload: EventPayload, config: CherryConfig, session: AgentSession): Promise<void> {
+  const { source_repo, issue_number, comment_body, comment_author } = payload;
+
+  if (!issue_number || !comment_body) {
+    throw new Error('Missing required fields');
+  }
+
   // Check if this is a Team Lead managed session
   if (session.metadata.mode !== 'team-lead') {
     console.log('Not a Team Lead session, delegating to regular handler');
     const { handleHumanResponse } = await import('./human-response.js');
-    await handleHumanResponse(payload);
+    await handleHumanResponse(payload, config);
     return;
   }
 
@@ -95,54 +135,17 @@ export async function handleTeamLeadHumanResponse(payload: EventPayload): Promis
     metadata: { author: comment_author, phase: 'team-lead' },
   });
 
-  // Check if this is a Claude Code plan approval
-  const pendingPlan = session.metadata.pending_claude_code_plan as string | undefined;
-  const lowerComment = comment_body.toLowerCase().trim();
-  
-  let metadataUpdate: Record<string, unknown> = {
+  await sessionService.updateMetadata(session.id, {
     lastHumanResponse: comment_body,
     lastHumanResponseAt: new Date().toISOString(),
-  };
-
-  if (pendingPlan) {
-    if (lowerComment === 'approve' || lowerComment.startsWith('approve') || lowerComment.includes('approved')) {
-      // Human approved the Claude Code plan
-      console.log('[TeamLeadHandler] Claude Code plan approved');
-      metadataUpdate.approved_claude_code_plan = pendingPlan;
-      metadataUpdate.pending_claude_code_plan = null;
-      
-      await githubService.postComment(
-        source_repo,
-        issue_number,
-        `✅ **Plan approved!** Executing with Claude Code...`
-      );
-    } else if (lowerComment === 'basic' || lowerComment.includes('basic tools')) {
-      // Human wants to use basic tools instead
-      console.log('[TeamLeadHandler] Using basic tools instead of Claude Code');
-      metadataUpdate.pending_claude_code_plan = null;
-      metadataUpdate.use_basic_tools = true;
-      
-      await githubService.postComment(
-        source_repo,
-        issue_number,
-        `👍 **Got it!** Switching to basic tools for implementation...`
-      );
-    } else if (lowerComment.startsWith('modify:')) {
-      // Human wants to modify the plan
-      const modifications = comment_body.slice(7).trim();
-      console.log('[TeamLeadHandler] Plan modifications requested');
-      metadataUpdate.plan_modifications = modifications;
-      
-      await githubService.postComment(
-        source_repo,
-        issue_number,
-        `📝 **Noted!** I'll adjust the plan based on your feedback...`
-      );
-    }
-  }
+  });
 
-  // Update metadata with response and any plan approval changes
-  await sessionService.updateMetadata(session.id, metadataUpdate);
+  await resumeTeamLead(payload, config, session);
+}
+
+async function resumeTeamLead(payload: EventPayload, config: CherryConfig, session: AgentSession): Promise<void> {
+  const { source_repo, issue_number } = payload;
+  if (!issue_number) return;
 
   // Ensure session is active
   if (session.status === 'paused') {
@@ -153,16 +156,10 @@ export async function handleTeamLeadHumanResponse(payload: EventPayload): Promis
   const updatedSession = await sessionService.getSession(source_repo, issue_number);
   if (!updatedSession) return;
 
-  await githubService.postComment(
-    source_repo,
-    issue_number,
-    `🤖 **Team Lead**: Got it, continuing...`
-  );
-
   await runTeamLead({
     session: updatedSession,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   });
 }
-
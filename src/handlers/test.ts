@@ -1,10 +1,10 @@
-import { EventPayload } from '../types/index.js';
+import { EventPayload, CherryConfig } from '../types/index.js';
 import { sessionService } from '../services/session.js';
 import { githubService } from '../services/github.js';
 import { runTester } from '../agents/tester.js';
 import { runPRCreator } from '../agents/pr-creator.js';
 
-export async function handleTest(payload: EventPayload): Promise<void> {
+export async function handleTest(payload: EventPayload, config: CherryConfig): Promise<void> {
   const { source_repo, issue_number } = payload;
 
   if (!issue_number || !source_repo) {
@@ -19,7 +19,8 @@ export async function handleTest(payload: EventPayload): Promise<void> {
     await githubService.postComment(
       source_repo,
       issue_number,
-      '❌ No agent session found for this issue.'
+      '❌ No agent session found for this issue.',
+      { agent: 'orchestrator', kind: 'error' }
     );
     return;
   }
@@ -29,6 +30,7 @@ export async function handleTest(payload: EventPayload): Promise<void> {
     session,
     payload,
     githubToken: process.env.GITHUB_TOKEN!,
+    config,
   });
 
   // If tests pass, automatically create PR
@@ -39,6 +41,7 @@ export async function handleTest(payload: EventPayload): Promise<void> {
         session: updatedSession,
         payload,
         githubToken: process.env.GITHUB_TOKEN!,
+        config,
       });
     }
   }
@@ -1,4 +1,4 @@
-import { EventPayload } from './types/index.js';
+import { EventPayload, CherryConfig } from './types/index.js';
 import { handleAgentStart } from './handlers/agent-start.js';
 import { handleAgentStop } from './handlers/agent-stop.js';
 import { handleHumanResponse } from './handlers/human-response.js';
@@ -9,23 +9,67 @@ import { handleTest } from './handlers/test.js';
 import { handleCreatePR } from './handlers/create-pr.js';
 import { handleTeamLead, handleTeamLeadHumanResponse } from './handlers/team-lead.js';
 import { sessionService } from './services/session.js';
+import { githubService } from './services/github.js';
+import { loadRepoConfig, ConfigError } from './services/config.js';
+import { botCommentReason } from './services/bot-comments.js';
+
+/**
+ * Load the target repo's config. An invalid config is reported on the issue/PR
+ * instead of crashing the run; returns null in that case.
+ */
+async function loadConfigForEvent(payload: EventPayload): Promise<CherryConfig | null> {
+  const repoPath = process.env.REPO_PATH || process.env.GITHUB_WORKSPACE || './source-repo';
+
+  try {
+    return await loadRepoConfig(repoPath);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+
+    console.error(error.message);
+    const target = payload.issue_number || payload.pr_number;
+    if (target) {
+      await githubService.postComment(
+        payload.source_repo,
+        target,
+        `⚠️ **Invalid \`${error.file}\`**\n\nThe agent configuration in this repository could not be loaded:\n\n${error.errors.map(e => `- ${e}`).join('\n')}\n\nFix the file on the default branch and trigger the agent again.`,
+        { agent: 'orchestrator', kind: 'error' }
+      );
+    }
+    return null;
+  }
+}
 
 export async function orchestrator(eventType: string, payload: EventPayload): Promise<void> {
   console.log(`Orchestrating event: ${eventType}`, { payload });
 
+  // The agents' own comments must never count as a human response
+  if (eventType === 'human_response') {
+    const reason = botCommentReason(
+      { body: payload.comment_body, author: payload.comment_author, authorType: payload.comment_author_type },
+      await githubService.getBotLogin()
+    );
+    if (reason) {
+      console.log(`Ignoring comment ${payload.comment_id ?? ''} on ${payload.source_repo}#${payload.issue_number}: ${reason}`);
+      return;
+    }
+  }
+
+  const config = await loadConfigForEvent(payload);
+  if (!config) return;
+
   switch (eventType) {
     // Team Lead mode (default) - handles everything autonomously
     case 'agent_start':
-      await handleTeamLead(payload);
+      await handleTeamLead(payload, config);
       break;
 
     // Legacy pipeline mode - manual phase triggers
     case 'agent_start_pipeline':
-      await handleAgentStart(payload);
+      await handleAgentStart(payload, config);
       break;
 
     case 'agent_stop':
-      await handleAgentStop(payload);
+      await handleAgentStop(payload, config);
       break;
 
     case 'human_response': {
@@ -33,28 +77,28 @@ export async function orchestrator(eventType: string, payload: EventPayload): Pr
       if (payload.issue_number && payload.source_repo) {
         const session = await sessionService.getSession(payload.source_repo, payload.issue_number);
         if (session?.metadata.mode === 'team-lead') {
-          await handleTeamLeadHumanResponse(payload);
+          await handleTeamLeadHumanResponse(payload, config);
           break;
         }
       }
-      await handleHumanResponse(payload);
+      await handleHumanResponse(payload, config);
       break;
     }
 
     case 'agent_implement':
-      await handleImplement(payload);
+      await handleImplement(payload, config);
       break;
 
     case 'agent_test':
-      await handleTest(payload);
+      await handleTest(payload, config);
       break;
 
     case 'agent_create_pr':
-      await handleCreatePR(payload);
+      await handleCreatePR(payload, config);
       break;
 
     case 'qa_review':
-      await handleQAReview(payload);
+      await handleQAReview(payload, config);
       break;
 
     case 'post_merge_monitor':
@@ -0,0 +1,149 @@
+import 'dotenv/config';
+import * as http from 'http';
+import { orchestrator } from './orchestrator.js';
+import { JobQueue } from './services/job-queue.js';
+import { mapWebhook, verifySignature, SUPPORTED_WEBHOOKS, WebhookBody } from './services/webhooks.js';
+import { parseReply, replyAction } from './services/commands.js';
+import { loadRepoConfig, DEFAULT_CONFIG } from './services/config.js';
+import { CherryConfig, EventPayload } from './types/index.js';
+
+/**
+ * HTTP entry point: receives GitHub webhooks directly (instead of on-label.yml relaying
+ * them through repository_dispatch) and runs the orchestrator on an in-process queue.
+ *
+ *   POST /webhook   GitHub deliveries, verified with WEBHOOK_SECRET
+ *   GET  /health    Queue stats
+ */
+
+const MAX_BODY_BYTES = 25 * 1024 * 1024;  // GitHub caps payloads at 25 MB
+
+const port = Number(process.env.PORT || 3000);
+const secret = process.env.WEBHOOK_SECRET;
+const repoPath = process.env.REPO_PATH || './source-repo';
+// REPO_PATH is a single checkout, so only accept events for the repo it belongs to
+const allowedRepos = (process.env.WEBHOOK_REPOS || '').split(',').map(r => r.trim().toLowerCase()).filter(Boolean);
+
+if (!secret) {
+  throw new Error('Missing WEBHOOK_SECRET (the secret configured on the GitHub webhook)');
+}
+
+// One job at a time: every job edits the same REPO_PATH checkout
+const queue = new JobQueue(1);
+// Slash commands only change session state, so they skip the line. Anything that then
+// runs an agent (e.g. /approve) waits for the session lock; /rollback edits files and stays serial.
+const commandQueue = new JobQueue(4);
+
+function queueFor(eventType: string, payload: EventPayload): JobQueue {
+  if (eventType !== 'human_response' || !payload.comment_body) return queue;
+  const action = replyAction(parseReply(payload.comment_body));
+  return action === 'reply' || action === 'rollback' ? queue : commandQueue;
+}
+
+async function loadLabels(): Promise<CherryConfig['labels']> {
+  try {
+    return (await loadRepoConfig(repoPath)).labels;
+  } catch {
+    // The orchestrator reports invalid configs on the issue; route with the defaults
+    return DEFAULT_CONFIG.labels;
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function respond(res: http.ServerResponse, status: number, body: Record<string, unknown>): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function handleWebhook(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const rawBody = await readBody(req);
+  const eventName = req.headers['x-github-event'] as string | undefined;
+  const deliveryId = (req.headers['x-github-delivery'] as string | undefined) || `local-${Date.now()}`;
+
+  if (!verifySignature(secret!, rawBody, req.headers['x-hub-signature-256'] as string | undefined)) {
+    console.warn(`[Webhook] Rejected delivery ${deliveryId}: bad or missing X-Hub-Signature-256`);
+    return respond(res, 401, { error: 'Invalid signature' });
+  }
+  if (!eventName) return respond(res, 400, { error: 'Missing X-GitHub-Event header' });
+  if (eventName === 'ping') return respond(res, 200, { ok: true, events: SUPPORTED_WEBHOOKS });
+
+  let body: WebhookBody;
+  try {
+    body = JSON.parse(rawBody.toString('utf-8'));
+  } catch {
+    return respond(res, 400, { error: 'Body is not JSON (set the webhook content type to application/json)' });
+  }
+
+  const repo = body.repository?.full_name;
+  if (allowedRepos.length > 0 && (!repo || !allowedRepos.includes(repo.toLowerCase()))) {
+    console.log(`[Webhook] ${deliveryId} ${eventName}: ignored, ${repo} is not in WEBHOOK_REPOS`);
+    return respond(res, 200, { ignored: `${repo} is not handled by this server` });
+  }
+
+  const mapping = mapWebhook(eventName, body, await loadLabels());
+  if ('ignored' in mapping) {
+    console.log(`[Webhook] ${deliveryId} ${eventName}.${body.action}: ignored, ${mapping.ignored}`);
+    return respond(res, 200, { ignored: mapping.ignored });
+  }
+
+  const { eventType, payload } = mapping;
+  const target = `${payload.source_repo}#${payload.issue_number ?? payload.pr_number}`;
+  const accepted = queueFor(eventType, payload).enqueue({
+    id: deliveryId,
+    label: `${eventType} ${target}`,
+    run: () => orchestrator(eventType, payload),
+  });
+
+  // GitHub times out after 10s; the job runs after we answer
+  respond(res, 202, { accepted, eventType, target });
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'GET' && url.pathname === '/health') {
+    return respond(res, 200, { ok: true, queue: queue.stats, commands: commandQueue.stats });
+  }
+  if (req.method === 'POST' && url.pathname === '/webhook') {
+    handleWebhook(req, res).catch(error => {
+      console.error('[Webhook] Failed to handle delivery:', error);
+      if (!res.headersSent) respond(res, 500, { error: error instanceof Error ? error.message : String(error) });
+    });
+    return;
+  }
+  respond(res, 404, { error: 'Not found' });
+});
+
+async function shutdown(signal: string): Promise<void> {
+  const waiting = [queue, commandQueue].reduce((n, q) => n + q.stats.queued + q.stats.running, 0);
+  console.log(`[Server] ${signal}: no longer accepting webhooks, waiting for ${waiting} job(s)`);
+  server.close();
+  await Promise.all([queue.onIdle(), commandQueue.onIdle()]);
+  process.exit(0);
+}
+
+process.on('SIGTERM', () => void shutdown('SIGTERM'));
+process.on('SIGINT', () => void shutdown('SIGINT'));
+
+server.listen(port, () => {
+  console.log(`[Server] Listening on :${port} (POST /webhook, GET /health), repo checkout: ${repoPath}`);
+  if (allowedRepos.length === 0) {
+    console.warn('[Server] WEBHOOK_REPOS is not set; events for any repository will run against this checkout');
+  }
+});
@@ -0,0 +1,164 @@
+import {
+  AccessRole, AgentSession, AuthorizationAuditEntry, AuthorizedAction, CherryConfig, EventPayload,
+} from '../types/index.js';
+import { sessionService } from './session.js';
+import { githubService } from './github.js';
+import { ACCESS_ROLES } from './config.js';
+
+/**
+ * Who may drive the agent. Every action (starting a session, replying, each slash
+ * command) needs a minimum role from `authorization.actions`. A user's role is the
+ * highest of:
+ * - explicit grants in `authorization.roles` (logins, or `org/team` slugs)
+ * - the role mapped from their repository permission (`authorization.permissions`)
+ *
+ * Denied attempts get a rejection comment and an entry in the session's
+ * `authorizationLog` (and the run log when there is no session yet).
+ */
+
+export interface ResolvedRole {
+  role: AccessRole;
+  source: string;   // e.g. "write permission", "member of my-org/platform"
+}
+
+export interface AuthorizationDecision extends ResolvedRole {
+  allowed: boolean;
+  actor?: string;
+  required: AccessRole;
+}
+
+const ROLE_CACHE_MS = 5 * 60 * 1000;   // The webhook server is long-running; permissions can change
+const MAX_AUDIT_ENTRIES = 50;
+
+const ACTION_LABELS: Partial<Record<AuthorizedAction, string>> = {
+  start: 'starting the agent',
+  stop: 'stopping the agent',
+  implement: 'triggering the implementation',
+  reply: 'replying to the agent',
+};
+
+const roleCache = new Map<string, { resolved: ResolvedRole; expires: number }>();
+
+const rank = (role: AccessRole) => ACCESS_ROLES.indexOf(role);
+
+function describeAction(action: AuthorizedAction): string {
+  return ACTION_LABELS[action] || `\`/${action}\``;
+}
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+export async function resolveRole(repo: string, login: string, config: CherryConfig): Promise<ResolvedRole> {
+  const cacheKey = `${repo}:${login.toLowerCase()}`;
+  const cached = roleCache.get(cacheKey);
+  if (cached && cached.expires > Date.now()) return cached.resolved;
+
+  const candidates: ResolvedRole[] = [];
+
+  for (const [role, members] of Object.entries(config.authorization.roles) as [AccessRole, string[]][]) {
+    for (const member of members) {
+      const [org, team] = member.split('/');
+      if (!team) {
+        if (member.toLowerCase() === login.toLowerCase()) candidates.push({ role, source: 'listed in authorization.roles' });
+        continue;
+      }
+      try {
+        if (await githubService.isTeamMember(org, team, login)) candidates.push({ role, source: `member of ${member}` });
+      } catch (error) {
+        console.warn(`[Auth] Could not check ${login}'s membership of ${member}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  try {
+    const permission = await githubService.getRepositoryPermission(repo, login);
+    const role = permission === 'none' ? 'none' : config.authorization.permissions[permission];
+    candidates.push({ role, source: `${permission} permission` });
+  } catch (error) {
+    console.warn(`[Auth] Could not look up ${login}'s permission on ${repo}: ${error instanceof Error ? error.message : error}`);
+    candidates.push({ role: 'none', source: 'permission lookup failed' });
+  }
+
+  const resolved = candidates.reduce((best, c) => (rank(c.role) > rank(best.role) ? c : best));
+  roleCache.set(cacheKey, { resolved, expires: Date.now() + ROLE_CACHE_MS });
+  return resolved;
+}
+
+export async function authorize(
+  repo: string,
+  actor: string | undefined,
+  action: AuthorizedAction,
+  config: CherryConfig
+): Promise<AuthorizationDecision> {
+  const required = config.authorization.actions[action];
+
+  if (!config.authorization.enabled) {
+    return { allowed: true, actor, role: 'admin', required, source: 'authorization disabled' };
+  }
+  if (required === 'none') {
+    return { allowed: true, actor, role: 'none', required, source: 'open to everyone' };
+  }
+  if (!actor) {
+    return { allowed: false, actor, role: 'none', required, source: 'unknown sender' };
+  }
+
+  const resolved = await resolveRole(repo, actor, config);
+  return { allowed: rank(resolved.role) >= rank(required), actor, required, ...resolved };
+}
+
+// ============================================================================
+// ENFORCEMENT
+// ============================================================================
+
+/**
+ * Check that `actor` may perform `action` on the payload's issue. When not, post a
+ * rejection comment, record the attempt, and return false.
+ */
+export async function requireRole(
+  payload: EventPayload,
+  config: CherryConfig,
+  action: AuthorizedAction,
+  actor: string | undefined,
+  session?: AgentSession | null
+): Promise<boolean> {
+  const { source_repo, issue_number } = payload;
+  const decision = await authorize(source_repo, actor, action, config);
+
+  if (decision.allowed) {
+    if (config.authorization.enabled) {
+      console.log(`[Auth] Allowed ${action} for ${actor || 'unknown'} on ${source_repo}#${issue_number ?? ''} (${decision.role}, ${decision.source})`);
+    }
+    return true;
+  }
+
+  const entry: AuthorizationAuditEntry = {
+    at: new Date().toISOString(),
+    actor: actor || 'unknown',
+    action,
+    role: decision.role,
+    required: decision.required,
+    source: decision.source,
+  };
+  console.log(`[Auth] DENIED ${JSON.stringify({ repo: source_repo, issue: issue_number, ...entry })}`);
+
+  if (!issue_number) return false;
+
+  const target = session === undefined ? await sessionService.getSession(source_repo, issue_number) : session;
+  if (target) {
+    const log = (target.metadata.authorizationLog as AuthorizationAuditEntry[] | undefined) || [];
+    await sessionService.updateMetadata(target.id, { authorizationLog: [...log, entry].slice(-MAX_AUDIT_ENTRIES) });
+  }
+
+  const who = actor ? `@${actor}` : 'Sorry';
+  const roleNote = actor
+    ? `you currently have **${decision.role}** (${decision.source})`
+    : 'the sender of this event could not be identified';
+  await githubService.postComment(
+    source_repo,
+    issue_number,
+    `🔒 ${who}, ${describeAction(action)} needs the **${decision.required}** role and ${roleNote}, so I have not acted on it.\n\nA maintainer can do it instead, or grant you the role under \`authorization.roles\` in \`.cherry.yml\`.`,
+    { agent: 'orchestrator', kind: 'error', ...(target ? { sessionId: target.id } : {}) }
+  );
+  return false;
+}
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { botCommentReason, formatMarker, parseMarker, withMarker } from './bot-comments.js';
+
+describe('formatMarker / parseMarker', () => {
+  it('round-trips a marker', () => {
+    const marker = { agent: 'team-lead' as const, kind: 'question' as const, sessionId: '3f6c1a52' };
+    assert.equal(formatMarker(marker), '<!-- cherry-agent {"agent":"team-lead","kind":"question","session":"3f6c1a52"} -->');
+    assert.deepEqual(parseMarker(withMarker('Which database?', marker)), marker);
+  });
+
+  it('omits the session when there is none', () => {
+    assert.deepEqual(parseMarker(formatMarker({ agent: 'orchestrator', kind: 'error' })), { agent: 'orchestrator', kind: 'error' });
+  });
+
+  it('escapes "--" so the HTML comment is not closed early', () => {
+    const marker = { agent: 'implementer' as const, kind: 'status' as const, sessionId: 'a--b-->' };
+    const formatted = formatMarker(marker);
+
+    assert.equal(formatted.indexOf('--', '<!--'.length), formatted.length - '-->'.length);
+    assert.deepEqual(parseMarker(`text\n\n${formatted}`), marker);
+  });
+
+  it('returns null for comments without a marker', () => {
+    assert.equal(parseMarker('Looks good, /approve'), null);
+    assert.equal(parseMarker(''), null);
+    assert.equal(parseMarker(null), null);
+    assert.equal(parseMarker(undefined), null);
+  });
+
+  it('treats a malformed marker as the orchestrator\'s', () => {
+    assert.deepEqual(parseMarker('<!-- cherry-agent {not json} -->'), { agent: 'orchestrator', kind: 'status' });
+    assert.deepEqual(parseMarker('<!-- cherry-agent'), { agent: 'orchestrator', kind: 'status' });
+  });
+
+  it('falls back for unknown kinds and non-string fields', () => {
+    assert.deepEqual(
+      parseMarker('<!-- cherry-agent {"agent":1,"kind":"shout","session":2} -->'),
+      { agent: 'orchestrator', kind: 'status' }
+    );
+  });
+});
+
+describe('botCommentReason', () => {
+  const marked = withMarker('Done', { agent: 'tester', kind: 'result' });
+
+  it('recognises the marker', () => {
+    assert.equal(botCommentReason({ body: marked, author: 'octocat', authorType: 'User' }), 'it carries the tester marker');
+  });
+
+  it('recognises bot accounts', () => {
+    assert.equal(
+      botCommentReason({ body: 'Deployed', author: 'github-actions[bot]', authorType: 'Bot' }),
+      'github-actions[bot] is a bot account'
+    );
+  });
+
+  it('recognises the bot\'s own login, case-insensitively', () => {
+    assert.equal(
+      botCommentReason({ body: 'Working on it', author: 'Cherry-Bot', authorType: 'User' }, 'cherry-bot'),
+      "Cherry-Bot is the agent's own account"
+    );
+  });
+
+  it('returns null for a human comment', () => {
+    assert.equal(botCommentReason({ body: '🤖 please use zod', author: 'octocat', authorType: 'User' }, 'cherry-bot'), null);
+    assert.equal(botCommentReason({ body: 'Sounds good', author: 'octocat' }), null);
+  });
+});
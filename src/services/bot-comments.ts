@@ -0,0 +1,64 @@
+import { CommentKind, CommentMarker } from '../types/index.js';
+
+/**
+ * Telling the agents' own comments apart from human ones. Every comment posted through
+ * GitHubService.postComment ends with a hidden marker:
+ *
+ *   <!-- cherry-agent {"agent":"team-lead","kind":"question","session":"…"} -->
+ *
+ * A comment is the bot's when it carries the marker, was posted by a GitHub App
+ * (user type "Bot"), or by the bot's own login (the account behind GITHUB_TOKEN).
+ */
+
+const MARKER_PREFIX = '<!-- cherry-agent';
+const MARKER_PATTERN = /<!-- cherry-agent (\{.*?\}) -->/;
+const COMMENT_KINDS: CommentKind[] = ['status', 'question', 'result', 'error', 'board'];
+
+export interface CommentAuthorship {
+  body?: string | null;
+  author?: string | null;
+  authorType?: string | null;   // GitHub user type: "User", "Bot", "Organization"
+}
+
+export function formatMarker(marker: CommentMarker): string {
+  const fields = { agent: marker.agent, kind: marker.kind, ...(marker.sessionId ? { session: marker.sessionId } : {}) };
+  // "--" would end the HTML comment early
+  return `${MARKER_PREFIX} ${JSON.stringify(fields).replace(/--/g, '-\\u002d')} -->`;
+}
+
+export function withMarker(body: string, marker: CommentMarker): string {
+  return `${body.trimEnd()}\n\n${formatMarker(marker)}`;
+}
+
+/**
+ * The marker on a comment, or null if it has none. A malformed marker still counts
+ * as one (agent "orchestrator"), so a mangled bot comment is never taken for a human's.
+ */
+export function parseMarker(body: string | null | undefined): CommentMarker | null {
+  if (!body || !body.includes(MARKER_PREFIX)) return null;
+
+  const match = body.match(MARKER_PATTERN);
+  try {
+    const fields = JSON.parse(match?.[1] || '') as Record<string, unknown>;
+    return {
+      agent: typeof fields.agent === 'string' ? fields.agent as CommentMarker['agent'] : 'orchestrator',
+      kind: COMMENT_KINDS.includes(fields.kind as CommentKind) ? fields.kind as CommentKind : 'status',
+      ...(typeof fields.session === 'string' ? { sessionId: fields.session } : {}),
+    };
+  } catch {
+    return { agent: 'orchestrator', kind: 'status' };
+  }
+}
+
+/**
+ * Why a comment is the bot's own, or null if a human wrote it
+ */
+export function botCommentReason(comment: CommentAuthorship, botLogin?: string | null): string | null {
+  const marker = parseMarker(comment.body);
+  if (marker) return `it carries the ${marker.agent} marker`;
+  if (comment.authorType === 'Bot') return `${comment.author || 'the author'} is a bot account`;
+  if (botLogin && comment.author && comment.author.toLowerCase() === botLogin.toLowerCase()) {
+    return `${comment.author} is the agent's own account`;
+  }
+  return null;
+}
@@ -0,0 +1,152 @@
+import { AgentName, AgentSession, Checkpoint, CherryConfig } from '../types/index.js';
+import { ToolExecutor } from '../tools/executor.js';
+import { sessionService } from './session.js';
+
+export interface CheckpointOptions {
+  agent?: AgentName;
+  good?: boolean;
+}
+
+export interface RollbackResult {
+  success: boolean;
+  checkpoint?: Checkpoint;
+  backup?: Checkpoint;   // State just before the rollback
+  output: string;
+  changedPaths: string[];
+}
+
+async function loadCheckpoints(session: AgentSession): Promise<Checkpoint[]> {
+  // Re-read: other delegations in this run may have added checkpoints since `session` was loaded
+  const latest = await sessionService.getSession(session.repo, session.issue_number);
+  return ((latest || session).metadata.checkpoints as Checkpoint[] | undefined) || [];
+}
+
+/**
+ * Save the checkpoint list, keeping the newest maxStored, and delete the refs of the
+ * ones that fall off so snapshots don't pile up in the repository (or on origin)
+ */
+async function storeCheckpoints(
+  executor: ToolExecutor,
+  session: AgentSession,
+  config: CherryConfig,
+  checkpoints: Checkpoint[],
+  extraMetadata: Record<string, unknown> = {}
+): Promise<void> {
+  const kept = checkpoints.slice(-config.checkpoints.maxStored);
+  const keptIds = new Set(kept.map(c => c.id));
+  const dropped = checkpoints.filter(c => !keptIds.has(c.id)).map(c => c.id);
+
+  await sessionService.updateMetadata(session.id, { checkpoints: kept, ...extraMetadata });
+  await executor.deleteCheckpoints(dropped, config.checkpoints.pushToRemote);
+}
+
+/**
+ * Snapshot the working tree and record it in session metadata. When nothing changed
+ * since the last checkpoint, that one is reused (and marked good if this one is).
+ * Returns null instead of throwing when the checkout can't be snapshotted, e.g. it isn't a git repo.
+ */
+export async function recordCheckpoint(
+  executor: ToolExecutor,
+  session: AgentSession,
+  config: CherryConfig,
+  label: string,
+  options: CheckpointOptions = {}
+): Promise<Checkpoint | null> {
+  if (!config.checkpoints.enabled) return null;
+
+  let snapshot;
+  try {
+    snapshot = await executor.createCheckpoint(label, config.checkpoints.pushToRemote);
+  } catch (error) {
+    console.warn(`[Checkpoints] Could not create checkpoint "${label}": ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+
+  const checkpoints = await loadCheckpoints(session);
+  const last = checkpoints[checkpoints.length - 1];
+
+  if (last && last.tree === snapshot.tree) {
+    if (options.good && !last.good) {
+      last.good = true;
+      await sessionService.updateMetadata(session.id, { checkpoints });
+    }
+    return last;
+  }
+
+  const checkpoint: Checkpoint = {
+    id: snapshot.id,
+    tree: snapshot.tree,
+    label,
+    createdAt: new Date().toISOString(),
+    ...(options.agent ? { agent: options.agent } : {}),
+    ...(options.good ? { good: true } : {}),
+  };
+  checkpoints.push(checkpoint);
+
+  await storeCheckpoints(executor, session, config, checkpoints);
+  console.log(`[Checkpoints] ${checkpoint.id.slice(0, 7)}: ${label}${checkpoint.good ? ' (good)' : ''}`);
+  return checkpoint;
+}
+
+/**
+ * Find a checkpoint by (prefix of) id; without an id, the latest good one
+ */
+export function findCheckpoint(checkpoints: Checkpoint[], id?: string): Checkpoint | undefined {
+  if (id) {
+    return checkpoints.find(c => c.id.startsWith(id.trim()));
+  }
+  return [...checkpoints].reverse().find(c => c.good);
+}
+
+/**
+ * Restore the working tree to a checkpoint (default: latest good one) and record
+ * the pre-rollback state as a new checkpoint, so the rollback can be undone.
+ */
+export async function rollbackSession(
+  executor: ToolExecutor,
+  session: AgentSession,
+  config: CherryConfig,
+  id?: string
+): Promise<RollbackResult> {
+  const checkpoints = await loadCheckpoints(session);
+  const checkpoint = findCheckpoint(checkpoints, id);
+
+  if (!checkpoint) {
+    const output = id
+      ? `No checkpoint matching "${id}".`
+      : 'No good checkpoint yet (one where type-check and tests passed). Pass a checkpoint id instead.';
+    return { success: false, output: `${output}\n\n${formatCheckpoints(checkpoints)}`, changedPaths: [] };
+  }
+
+  const result = await executor.rollbackToCheckpoint(checkpoint.id, config.checkpoints.pushToRemote);
+  if (!result.success) {
+    return { success: false, checkpoint, output: result.error || 'Rollback failed', changedPaths: [] };
+  }
+
+  let backup: Checkpoint | undefined;
+  if (result.backup) {
+    backup = {
+      id: result.backup.id,
+      tree: result.backup.tree,
+      label: `before rollback to ${checkpoint.id.slice(0, 7)}`,
+      createdAt: new Date().toISOString(),
+    };
+    // Keep the rolled-back-to checkpoint last, so the next "latest" is the restored state
+    const others = checkpoints.filter(c => c.id !== checkpoint.id);
+    await storeCheckpoints(executor, session, config, [...others, backup, checkpoint], {
+      lastRollback: { to: checkpoint.id, backup: backup.id, at: backup.createdAt },
+    });
+  }
+
+  return { success: true, checkpoint, backup, output: result.output, changedPaths: result.changedPaths || [] };
+}
+
+/**
+ * Markdown list of checkpoints, newest first
+ */
+export function formatCheckpoints(checkpoints: Checkpoint[], limit = 10): string {
+  if (checkpoints.length === 0) return '_No checkpoints yet._';
+  return [...checkpoints].reverse().slice(0, limit).map(c =>
+    `- \`${c.id.slice(0, 7)}\` ${c.label}${c.good ? ' ✅' : ''} _(${c.createdAt})_`
+  ).join('\n');
+}
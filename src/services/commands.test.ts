@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseReply, replyAction } from './commands.js';
+import { AGENT_NAMES } from './config.js';
+
+describe('parseReply', () => {
+  it('treats replies that do not start with a command as free text', () => {
+    assert.deepEqual(parseReply('  not approved, use zod instead  '), { type: 'text', text: 'not approved, use zod instead' });
+    assert.deepEqual(parseReply('Looks good, /approve'), { type: 'text', text: 'Looks good, /approve' });
+  });
+
+  it('only reads a command from the first line', () => {
+    assert.deepEqual(parseReply('One more thing:\n/stop'), { type: 'text', text: 'One more thing:\n/stop' });
+    assert.deepEqual(parseReply('/approve\n/stop'), { type: 'command', command: { name: 'approve' } });
+  });
+
+  it('lets unknown /words fall through as text', () => {
+    assert.deepEqual(parseReply('/unknown thing'), { type: 'text', text: '/unknown thing' });
+    assert.deepEqual(parseReply('/usr/bin is read-only'), { type: 'text', text: '/usr/bin is read-only' });
+  });
+
+  it('ignores remarks after argument-less commands', () => {
+    assert.deepEqual(parseReply('/APPROVE looks good'), { type: 'command', command: { name: 'approve' } });
+    assert.deepEqual(parseReply('/status please'), { type: 'command', command: { name: 'status' } });
+  });
+
+  it('reads multi-line reasons and feedback', () => {
+    assert.deepEqual(parseReply('/reject'), { type: 'command', command: { name: 'reject' } });
+    assert.deepEqual(parseReply('/reject too broad\nsplit it up'), { type: 'command', command: { name: 'reject', reason: 'too broad\nsplit it up' } });
+    assert.deepEqual(parseReply('/modify\nuse zod'), { type: 'command', command: { name: 'modify', feedback: 'use zod' } });
+    assert.equal(parseReply('/modify').type, 'invalid');
+  });
+
+  it('validates agent names', () => {
+    assert.deepEqual(parseReply('/skip Tester'), { type: 'command', command: { name: 'skip', agent: 'tester' } });
+    assert.deepEqual(parseReply('/skip nobody'), {
+      type: 'invalid',
+      name: 'skip',
+      error: `Unknown agent "nobody". Agents: ${AGENT_NAMES.join(', ')}.\n\nUsage: \`/skip <agent>\` - never delegate to this agent again`,
+    });
+    assert.deepEqual(parseReply('/retry'), {
+      type: 'invalid',
+      name: 'retry',
+      error: `Missing agent. Agents: ${AGENT_NAMES.join(', ')}.\n\nUsage: \`/retry <agent>\` - run this agent again next`,
+    });
+  });
+
+  it('validates budgets', () => {
+    assert.deepEqual(parseReply('/budget $5.50'), { type: 'command', command: { name: 'budget', usd: 5.5 } });
+    assert.deepEqual(parseReply('/budget off'), { type: 'command', command: { name: 'budget', usd: 0 } });
+    assert.deepEqual(parseReply('/budget abc'), {
+      type: 'invalid',
+      name: 'budget',
+      error: 'Expected an amount in USD, got "abc".\n\nUsage: `/budget <usd>` - set the session budget (0 = no limit) and resume if it was reached',
+    });
+    assert.equal(parseReply('/budget -1').type, 'invalid');
+    assert.equal(parseReply('/budget').type, 'invalid');
+  });
+
+  it('takes at most one checkpoint id', () => {
+    assert.deepEqual(parseReply('/rollback'), { type: 'command', command: { name: 'rollback' } });
+    assert.deepEqual(parseReply('/rollback 1a2b3c4'), { type: 'command', command: { name: 'rollback', checkpointId: '1a2b3c4' } });
+    assert.equal(parseReply('/rollback 1a2b3c4 5d6e7f8').type, 'invalid');
+  });
+});
+
+describe('replyAction', () => {
+  it('maps replies to the action that needs authorizing', () => {
+    assert.equal(replyAction(parseReply('sounds good')), 'reply');
+    assert.equal(replyAction(parseReply('/stop')), 'stop');
+    assert.equal(replyAction(parseReply('/skip nobody')), 'skip');
+  });
+});
@@ -0,0 +1,109 @@
+import { AgentName, AuthorizedAction } from '../types/index.js';
+import { AGENT_NAMES } from './config.js';
+
+/**
+ * Slash commands in human replies. A reply is a command only when it starts with one
+ * of the commands below; anything else, including unknown `/words`, is free-form
+ * conversation for the Team Lead. Arguments are validated here, so handlers only see
+ * well-formed commands.
+ */
+
+export type SlashCommand =
+  | { name: 'approve' }
+  | { name: 'reject'; reason?: string }
+  | { name: 'modify'; feedback: string }
+  | { name: 'basic' }
+  | { name: 'skip'; agent: AgentName }
+  | { name: 'retry'; agent: AgentName }
+  | { name: 'stop' }
+  | { name: 'status' }
+  | { name: 'budget'; usd: number }
+  | { name: 'rollback'; checkpointId?: string };
+
+export type ParsedReply =
+  | { type: 'command'; command: SlashCommand }
+  | { type: 'invalid'; name: SlashCommand['name']; error: string }
+  | { type: 'text'; text: string };
+
+export const COMMAND_HELP: Record<SlashCommand['name'], string> = {
+  approve: '`/approve` - execute the pending Claude Code plan',
+  reject: '`/reject [reason]` - discard the pending plan and wait for instructions',
+  modify: '`/modify <feedback>` - regenerate the pending plan with your feedback',
+  basic: '`/basic` - implement with basic tools instead of Claude Code',
+  skip: '`/skip <agent>` - never delegate to this agent again',
+  retry: '`/retry <agent>` - run this agent again next',
+  stop: '`/stop` - cancel the session',
+  status: '`/status` - show the session state',
+  budget: '`/budget <usd>` - set the session budget (0 = no limit) and resume if it was reached',
+  rollback: '`/rollback [checkpoint]` - restore the working tree (default: latest good checkpoint)',
+};
+
+const COMMAND_NAMES = Object.keys(COMMAND_HELP) as SlashCommand['name'][];
+
+export function formatCommandHelp(): string {
+  return COMMAND_NAMES.map(name => `- ${COMMAND_HELP[name]}`).join('\n');
+}
+
+/**
+ * What a reply asks to do, for the authorization check
+ */
+export function replyAction(reply: ParsedReply): AuthorizedAction {
+  if (reply.type === 'text') return 'reply';
+  return reply.type === 'command' ? reply.command.name : reply.name;
+}
+
+export function parseReply(body: string): ParsedReply {
+  const text = body.trim();
+  const [firstLine, ...moreLines] = text.split('\n');
+  const match = firstLine.trim().match(/^\/([a-z]+)(?:\s+(.*))?$/i);
+  const name = match?.[1].toLowerCase() as SlashCommand['name'] | undefined;
+
+  if (!name || !COMMAND_NAMES.includes(name)) {
+    return { type: 'text', text };
+  }
+
+  const argument = (match?.[2] || '').trim();
+  // Free-text arguments (/modify, /reject) may continue on the following lines
+  const longArgument = [argument, moreLines.join('\n').trim()].filter(Boolean).join('\n');
+
+  const invalid = (error: string): ParsedReply => ({ type: 'invalid', name, error: `${error}\n\nUsage: ${COMMAND_HELP[name]}` });
+  const command = (parsed: SlashCommand): ParsedReply => ({ type: 'command', command: parsed });
+
+  switch (name) {
+    case 'approve':
+    case 'basic':
+    case 'stop':
+    case 'status':
+      // Anything after these is just a remark ("/approve looks good")
+      return command({ name });
+
+    case 'reject':
+      return command({ name, ...(longArgument ? { reason: longArgument } : {}) });
+
+    case 'modify':
+      if (!longArgument) return invalid('Say what to change in the plan.');
+      return command({ name, feedback: longArgument });
+
+    case 'skip':
+    case 'retry': {
+      const agent = argument.toLowerCase() as AgentName;
+      if (!AGENT_NAMES.includes(agent)) {
+        return invalid(`${argument ? `Unknown agent "${argument}"` : 'Missing agent'}. Agents: ${AGENT_NAMES.join(', ')}.`);
+      }
+      return command({ name, agent });
+    }
+
+    case 'budget': {
+      const usd = ['off', 'none'].includes(argument.toLowerCase()) ? 0 : Number(argument.replace(/^\$/, ''));
+      if (!argument || !Number.isFinite(usd) || usd < 0) {
+        return invalid(`Expected an amount in USD, got "${argument}".`);
+      }
+      return command({ name, usd });
+    }
+
+    case 'rollback': {
+      if (/\s/.test(argument)) return invalid('Pass a single checkpoint id.');
+      return command({ name, ...(argument ? { checkpointId: argument } : {}) });
+    }
+  }
+}
@@ -0,0 +1,245 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { CherryConfig, CompactionStats } from '../types/index.js';
+import { ResponseUsage } from './usage.js';
+
+/**
+ * Keeps long agent loops inside the model's context window.
+ *
+ * Before each model call the conversation size is estimated (characters per token,
+ * calibrated against the input_tokens the API reports). Over the limit, older turns are
+ * compacted until the conversation is back under TARGET_RATIO of it:
+ *
+ * 1. Old tool results become one-line summaries (first line, file paths mentioned), and
+ *    long tool inputs (file contents, patches) are elided. Assistant text is kept.
+ * 2. If that isn't enough, the oldest turns are dropped and replaced by a note in the
+ *    first message listing the tools that ran and what the agent said.
+ *
+ * The first message (the task) and the last `keepRecentMessages` messages are never touched.
+ */
+
+type CompactionSettings = CherryConfig['compaction'];
+
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+const TARGET_RATIO = 0.6;          // Compact well below the limit so it doesn't run every turn
+const MIN_ELIDE_CHARS = 400;       // Shorter tool results and inputs aren't worth summarising
+const MAX_NOTE_LINES = 80;
+const COMPACTED_MARKER = '[Compacted';
+
+export class ContextCompactor {
+  private charsPerToken = DEFAULT_CHARS_PER_TOKEN;
+  private overheadChars: number;
+  private counters: CompactionStats = { compactions: 0, elidedToolResults: 0, droppedMessages: 0, peakTokens: 0 };
+  private task: Anthropic.MessageParam['content'] | null = null;  // First message before notes were added
+  private notes: string[] = [];
+
+  constructor(
+    private settings: CompactionSettings,
+    private label: string,
+    fixed: { system?: string; tools?: Anthropic.Tool[] } = {}
+  ) {
+    // System prompt and tool schemas count towards the context on every call
+    this.overheadChars = (fixed.system || '').length + (fixed.tools ? JSON.stringify(fixed.tools).length : 0);
+  }
+
+  get stats(): CompactionStats {
+    return { ...this.counters };
+  }
+
+  estimateTokens(messages: Anthropic.MessageParam[]): number {
+    return Math.ceil((this.overheadChars + messagesLength(messages)) / this.charsPerToken);
+  }
+
+  /**
+   * Calibrate the estimate with the real input size of the call just made
+   */
+  observe(messages: Anthropic.MessageParam[], usage: ResponseUsage): void {
+    const inputTokens = usage.input_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+    if (inputTokens <= 0) return;
+    this.charsPerToken = (this.overheadChars + messagesLength(messages)) / inputTokens;
+    this.counters.peakTokens = Math.max(this.counters.peakTokens, inputTokens);
+  }
+
+  /**
+   * Call before each model request. Compacts `messages` in place when the conversation
+   * is over the limit; returns whether anything changed.
+   */
+  compact(messages: Anthropic.MessageParam[]): boolean {
+    const before = this.estimateTokens(messages);
+    this.counters.peakTokens = Math.max(this.counters.peakTokens, before);
+    if (!this.settings.enabled || before <= this.settings.maxContextTokens) return false;
+
+    const target = this.settings.maxContextTokens * TARGET_RATIO;
+    const protectedFrom = Math.max(1, messages.length - this.settings.keepRecentMessages);
+    const toolUses = indexToolUses(messages);
+
+    let elided = 0;
+    for (let i = 1; i < protectedFrom && this.estimateTokens(messages) > target; i++) {
+      elided += elideMessage(messages[i], toolUses);
+    }
+
+    let dropped = 0;
+    if (this.estimateTokens(messages) > target) {
+      dropped = this.dropOldestTurns(messages, protectedFrom, target, toolUses);
+    }
+
+    const after = this.estimateTokens(messages);
+    if (elided === 0 && dropped === 0) {
+      console.warn(`[Compaction] ${this.label}: ~${before} tokens but nothing left to compact outside the last ${this.settings.keepRecentMessages} messages`);
+      return false;
+    }
+
+    this.counters.compactions++;
+    this.counters.elidedToolResults += elided;
+    this.counters.droppedMessages += dropped;
+    console.log(`[Compaction] ${this.label}: ~${before} → ~${after} tokens (${elided} tool results elided, ${dropped} messages dropped)`);
+    return true;
+  }
+
+  /**
+   * Remove whole turns after the first message, up to the protected tail. The cut always
+   * lands before an assistant message so roles keep alternating and every tool_result
+   * still follows its tool_use.
+   */
+  private dropOldestTurns(
+    messages: Anthropic.MessageParam[],
+    protectedFrom: number,
+    target: number,
+    toolUses: Map<string, Anthropic.ToolUseBlockParam>
+  ): number {
+    let cut = 1;
+    let removedChars = 0;
+    const excess = (this.estimateTokens(messages) - target) * this.charsPerToken;
+
+    for (let i = 1; i < protectedFrom; i++) {
+      if (messages[i].role === 'assistant' && i > 1 && removedChars >= excess) break;
+      removedChars += messageLength(messages[i]);
+      if (messages[i + 1]?.role === 'assistant' && i + 1 <= protectedFrom) cut = i + 1;
+    }
+    if (cut <= 1) return 0;
+
+    const removed = messages.slice(1, cut);
+    this.notes.push(...describeTurns(removed, toolUses));
+    if (this.notes.length > MAX_NOTE_LINES) this.notes = ['- …', ...this.notes.slice(-MAX_NOTE_LINES)];
+
+    this.task ??= messages[0].content;
+    messages.splice(0, cut, { role: 'user', content: withNote(this.task, this.notes) });
+    return removed.length;
+  }
+}
+
+// ============================================================================
+// ELIDING
+// ============================================================================
+
+function messageLength(message: Anthropic.MessageParam): number {
+  return typeof message.content === 'string' ? message.content.length : JSON.stringify(message.content).length;
+}
+
+function messagesLength(messages: Anthropic.MessageParam[]): number {
+  return messages.reduce((sum, m) => sum + messageLength(m), 0);
+}
+
+function indexToolUses(messages: Anthropic.MessageParam[]): Map<string, Anthropic.ToolUseBlockParam> {
+  const index = new Map<string, Anthropic.ToolUseBlockParam>();
+  for (const message of messages) {
+    if (message.role !== 'assistant' || typeof message.content === 'string') continue;
+    for (const block of message.content) {
+      if (block.type === 'tool_use') index.set(block.id, block);
+    }
+  }
+  return index;
+}
+
+function resultText(block: Anthropic.ToolResultBlockParam): string {
+  if (typeof block.content === 'string') return block.content;
+  return (block.content || []).map(part => (part.type === 'text' ? part.text : `[${part.type}]`)).join('\n');
+}
+
+/**
+ * Summarise long tool results and inputs in one message; returns the number of results summarised
+ */
+function elideMessage(message: Anthropic.MessageParam, toolUses: Map<string, Anthropic.ToolUseBlockParam>): number {
+  if (typeof message.content === 'string') return 0;
+
+  let elided = 0;
+  for (const block of message.content) {
+    if (block.type === 'tool_result') {
+      const text = resultText(block);
+      if (text.length < MIN_ELIDE_CHARS || text.startsWith(COMPACTED_MARKER)) continue;
+      block.content = summarizeToolResult(toolUses.get(block.tool_use_id), text, !!block.is_error);
+      elided++;
+    } else if (block.type === 'tool_use') {
+      block.input = elideInput(block.input as Record<string, unknown>);
+    }
+  }
+  return elided;
+}
+
+function elideInput(input: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(input || {}).map(([key, value]) =>
+    typeof value === 'string' && value.length >= MIN_ELIDE_CHARS
+      ? [key, `${COMPACTED_MARKER}: ${value.length} chars elided]`]
+      : [key, value]
+  ));
+}
+
+const PATH_PATTERN = /(?:[\w@.-]+\/)+[\w@.-]+\.\w{1,6}\b|\b[\w-]+\.(?:tsx?|jsx?|mjs|cjs|json|md|css|scss|ya?ml|html)\b/g;
+
+function summarizeToolResult(toolUse: Anthropic.ToolUseBlockParam | undefined, text: string, isError: boolean): string {
+  const name = toolUse?.name || 'tool';
+  const firstLine = text.split('\n').find(line => line.trim())?.trim().slice(0, 200) || '';
+  const paths = [...new Set(text.match(PATH_PATTERN) || [])].slice(0, 15);
+
+  return [
+    `${COMPACTED_MARKER} ${name} ${isError ? 'error' : 'result'}, ${text.length} chars] ${isError ? text.slice(0, 300) : firstLine}`,
+    paths.length > 0 ? `Files mentioned: ${paths.join(', ')}` : '',
+    'Run the tool again if you need the details.',
+  ].filter(Boolean).join('\n');
+}
+
+// ============================================================================
+// DROPPING
+// ============================================================================
+
+function describeInput(input: Record<string, unknown>): string {
+  const keys = ['path', 'from', 'command', 'pattern', 'symbol', 'ref', 'agent'];
+  const parts = keys
+    .filter(key => typeof input?.[key] === 'string' && !(input[key] as string).startsWith(COMPACTED_MARKER))
+    .map(key => `${key}: ${(input[key] as string).slice(0, 80)}`);
+  return parts.join(', ');
+}
+
+/**
+ * One line per tool call and per assistant remark in the removed turns
+ */
+function describeTurns(removed: Anthropic.MessageParam[], toolUses: Map<string, Anthropic.ToolUseBlockParam>): string[] {
+  const failed = new Set<string>();
+  for (const message of removed) {
+    if (typeof message.content === 'string') continue;
+    for (const block of message.content) {
+      if (block.type === 'tool_result' && block.is_error) failed.add(block.tool_use_id);
+    }
+  }
+
+  const lines: string[] = [];
+  for (const message of removed) {
+    if (message.role !== 'assistant') continue;
+    const blocks = typeof message.content === 'string' ? [{ type: 'text' as const, text: message.content }] : message.content;
+    for (const block of blocks) {
+      if (block.type === 'text' && block.text.trim()) {
+        const text = block.text.trim().replace(/\s+/g, ' ');
+        lines.push(`- You said: ${text.length > 300 ? `${text.slice(0, 300)}…` : text}`);
+      } else if (block.type === 'tool_use') {
+        const input = (toolUses.get(block.id)?.input || block.input) as Record<string, unknown>;
+        lines.push(`- ${block.name}(${describeInput(input)})${failed.has(block.id) ? ' failed' : ''}`);
+      }
+    }
+  }
+  return lines;
+}
+
+function withNote(task: Anthropic.MessageParam['content'], notes: string[]): Anthropic.MessageParam['content'] {
+  const note = `\n\n---\n${COMPACTED_MARKER} earlier turns] To save context, earlier turns were removed. What happened in them:\n${notes.join('\n')}`;
+  if (typeof task === 'string') return `${task}${note}`;
+  return [...task, { type: 'text', text: note.trim() }];
+}
@@ -0,0 +1,280 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { AccessRole, AgentName, AuthorizedAction, CherryConfig, ModelRole } from '../types/index.js';
+import {
+  ALLOWED_COMMANDS, TESTER_COMMANDS, PROTECTED_PATHS, COMPLEXITY_THRESHOLDS, DEFAULT_SANDBOX, AGENT_SANDBOXES,
+} from '../tools/definitions.js';
+
+// Looked up in the target repo root, first match wins
+const CONFIG_FILES = ['.cherry.yml', '.cherry.yaml', '.cherry.json'];
+
+export const DEFAULT_CONFIG: CherryConfig = {
+  baseBranch: 'main',
+  model: 'claude-sonnet-4-20250514',
+  fallbackModels: [],
+  models: {},
+  labels: {
+    start: 'agent:start',
+    stop: 'agent:stop',
+    complete: 'agent:complete',
+    implement: 'agent:implement',
+    prReady: 'agent:pr-ready',
+  },
+  limits: {
+    teamLeadIterations: 25,
+    implementerIterations: 1000,
+    implementerFixAttempts: 3,
+    sessionBudgetUsd: 0,
+  },
+  allowedCommands: ALLOWED_COMMANDS,
+  commandPolicies: { tester: TESTER_COMMANDS },
+  sandbox: DEFAULT_SANDBOX,
+  sandboxes: AGENT_SANDBOXES,
+  checkpoints: {
+    enabled: true,
+    implementerInterval: 10,
+    maxStored: 30,
+    pushToRemote: false,
+  },
+  compaction: {
+    enabled: true,
+    maxContextTokens: 120000,
+    keepRecentMessages: 10,
+  },
+  protectedPaths: PROTECTED_PATHS,
+  complexity: COMPLEXITY_THRESHOLDS,
+  authorization: {
+    enabled: true,
+    roles: {},
+    permissions: {
+      admin: 'admin',
+      maintain: 'admin',
+      write: 'approver',
+      triage: 'requester',
+      read: 'none',
+    },
+    actions: {
+      start: 'requester',
+      stop: 'requester',
+      implement: 'approver',
+      reply: 'requester',
+      status: 'requester',
+      approve: 'approver',
+      reject: 'approver',
+      modify: 'approver',
+      basic: 'approver',
+      skip: 'approver',
+      retry: 'approver',
+      rollback: 'approver',
+      budget: 'admin',
+    },
+  },
+};
+
+export class ConfigError extends Error {
+  constructor(public file: string, public errors: string[]) {
+    super(`Invalid ${file}:\n${errors.map(e => `- ${e}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+type FieldType = 'string' | 'boolean' | 'positiveInteger' | 'nonNegativeInteger' | 'nonNegativeNumber' | 'unitInterval' | 'string[]' | 'role';
+interface ObjectSchema { [key: string]: FieldType | ObjectSchema }
+
+const MODEL_SETTINGS_SCHEMA: ObjectSchema = {
+  model: 'string',
+  maxTokens: 'positiveInteger',
+  temperature: 'unitInterval',
+  fallbacks: 'string[]',
+};
+
+const SANDBOX_SCHEMA: ObjectSchema = {
+  network: 'boolean',
+  timeoutSeconds: 'positiveInteger',
+  cpuSeconds: 'nonNegativeInteger',
+  memoryMb: 'nonNegativeInteger',
+  maxOutputBytes: 'positiveInteger',
+  env: 'string[]',
+};
+
+export const AGENT_NAMES: AgentName[] = ['clarifier', 'scope', 'designer', 'planner', 'implementer', 'tester', 'pr-creator'];
+const MODEL_ROLES: ModelRole[] = ['team-lead', ...AGENT_NAMES, 'qa-review'];
+export const ACCESS_ROLES: AccessRole[] = ['none', 'requester', 'approver', 'admin'];
+const AUTHORIZED_ACTIONS = Object.keys(DEFAULT_CONFIG.authorization.actions) as AuthorizedAction[];
+
+const CONFIG_SCHEMA: ObjectSchema = {
+  baseBranch: 'string',
+  model: 'string',
+  fallbackModels: 'string[]',
+  models: Object.fromEntries(MODEL_ROLES.map(role => [role, MODEL_SETTINGS_SCHEMA])),
+  labels: {
+    start: 'string',
+    stop: 'string',
+    complete: 'string',
+    implement: 'string',
+    prReady: 'string',
+  },
+  limits: {
+    teamLeadIterations: 'positiveInteger',
+    implementerIterations: 'positiveInteger',
+    implementerFixAttempts: 'nonNegativeInteger',
+    sessionBudgetUsd: 'nonNegativeNumber',
+  },
+  allowedCommands: 'string[]',
+  commandPolicies: Object.fromEntries(AGENT_NAMES.map(agent => [agent, 'string[]' as const])),
+  sandbox: SANDBOX_SCHEMA,
+  sandboxes: Object.fromEntries(AGENT_NAMES.map(agent => [agent, SANDBOX_SCHEMA])),
+  checkpoints: {
+    enabled: 'boolean',
+    implementerInterval: 'nonNegativeInteger',
+    maxStored: 'positiveInteger',
+    pushToRemote: 'boolean',
+  },
+  compaction: {
+    enabled: 'boolean',
+    maxContextTokens: 'positiveInteger',
+    keepRecentMessages: 'nonNegativeInteger',
+  },
+  protectedPaths: 'string[]',
+  complexity: {
+    fileCountThreshold: 'nonNegativeInteger',
+    scoreThreshold: 'nonNegativeInteger',
+    complexKeywords: 'string[]',
+  },
+  authorization: {
+    enabled: 'boolean',
+    roles: {
+      admin: 'string[]',
+      approver: 'string[]',
+      requester: 'string[]',
+    },
+    permissions: Object.fromEntries(Object.keys(DEFAULT_CONFIG.authorization.permissions).map(p => [p, 'role' as const])),
+    actions: Object.fromEntries(AUTHORIZED_ACTIONS.map(action => [action, 'role' as const])),
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkField(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' && value.trim().length > 0;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'positiveInteger':
+      return Number.isInteger(value) && (value as number) > 0;
+    case 'nonNegativeInteger':
+      return Number.isInteger(value) && (value as number) >= 0;
+    case 'nonNegativeNumber':
+      return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    case 'unitInterval':
+      return typeof value === 'number' && value >= 0 && value <= 1;
+    case 'string[]':
+      return Array.isArray(value) && value.every(v => typeof v === 'string');
+    case 'role':
+      return ACCESS_ROLES.includes(value as AccessRole);
+  }
+}
+
+const TYPE_DESCRIPTIONS: Record<FieldType, string> = {
+  string: 'a non-empty string',
+  boolean: 'true or false',
+  positiveInteger: 'a positive integer',
+  nonNegativeInteger: 'a non-negative integer',
+  nonNegativeNumber: 'a non-negative number',
+  unitInterval: 'a number between 0 and 1',
+  'string[]': 'a list of strings',
+  role: `one of ${ACCESS_ROLES.join(', ')}`,
+};
+
+/**
+ * Validate a partial config against the schema. Every field is optional,
+ * but unknown keys are rejected so typos don't silently fall back to defaults.
+ */
+function validate(value: unknown, schema: ObjectSchema, prefix = ''): string[] {
+  if (!isPlainObject(value)) {
+    return [`${prefix || 'config'}: expected an object`];
+  }
+
+  const errors: string[] = [];
+  for (const [key, fieldValue] of Object.entries(value)) {
+    const fieldPath = prefix ? `${prefix}.${key}` : key;
+    const fieldSchema = schema[key];
+
+    if (!fieldSchema) {
+      errors.push(`${fieldPath}: unknown key (allowed: ${Object.keys(schema).join(', ')})`);
+    } else if (typeof fieldSchema === 'object') {
+      errors.push(...validate(fieldValue, fieldSchema, fieldPath));
+    } else if (!checkField(fieldValue, fieldSchema)) {
+      errors.push(`${fieldPath}: expected ${TYPE_DESCRIPTIONS[fieldSchema]}, got ${JSON.stringify(fieldValue)}`);
+    }
+  }
+  return errors;
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Nested objects merge key by key; arrays and scalars from the repo config replace
+ * the defaults. protectedPaths is the exception: repo entries are added to the
+ * built-in list so a config can't unprotect .git or .env files.
+ */
+function mergeConfig(defaults: CherryConfig, overrides: Record<string, unknown>): CherryConfig {
+  const merge = (base: Record<string, unknown>, extra: Record<string, unknown>): Record<string, unknown> => {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(extra)) {
+      result[key] = isPlainObject(value) && isPlainObject(base[key])
+        ? merge(base[key] as Record<string, unknown>, value)
+        : value;
+    }
+    return result;
+  };
+
+  const merged = merge(defaults as unknown as Record<string, unknown>, overrides) as unknown as CherryConfig;
+  merged.protectedPaths = [...new Set([...defaults.protectedPaths, ...((overrides.protectedPaths as string[]) || [])])];
+  return merged;
+}
+
+/**
+ * Load .cherry.yml (or .cherry.yaml / .cherry.json) from the target repo and merge
+ * it over the defaults. Returns the defaults when no config file exists.
+ * Throws ConfigError when the file can't be parsed or fails validation.
+ */
+export async function loadRepoConfig(repoPath: string): Promise<CherryConfig> {
+  for (const fileName of CONFIG_FILES) {
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(repoPath, fileName), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = fileName.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new ConfigError(fileName, [`could not parse: ${message}`]);
+    }
+
+    // An empty file means "use the defaults"
+    if (parsed === null || parsed === undefined) return DEFAULT_CONFIG;
+
+    const errors = validate(parsed, CONFIG_SCHEMA);
+    if (errors.length > 0) throw new ConfigError(fileName, errors);
+
+    console.log(`[Config] Loaded ${fileName}`);
+    return mergeConfig(DEFAULT_CONFIG, parsed as Record<string, unknown>);
+  }
+
+  return DEFAULT_CONFIG;
+}
@@ -1,4 +1,6 @@
 import { Octokit } from '@octokit/rest';
+import { CommentMarker, RepoPermission } from '../types/index.js';
+import { withMarker } from './bot-comments.js';
 
 const githubToken = process.env.GITHUB_TOKEN;
 
@@ -14,15 +16,86 @@ export class GitHubService {
     return { owner, repo: repoName };
   }
 
-  async postComment(repo: string, issueNumber: number, body: string): Promise<void> {
+  private botLogin: Promise<string | null> | null = null;
+
+  /**
+   * Post a comment and return its id; the hidden marker keeps it from being treated as a human reply
+   */
+  async postComment(repo: string, issueNumber: number, body: string, marker: CommentMarker): Promise<number> {
     const { owner, repo: repoName } = this.parseRepo(repo);
     
-    await octokit.issues.createComment({
+    const { data } = await octokit.issues.createComment({
       owner,
       repo: repoName,
       issue_number: issueNumber,
-      body,
+      body: withMarker(body, marker),
     });
+
+    return data.id;
+  }
+
+  /**
+   * Replace a comment's body. Returns false if the comment no longer exists.
+   */
+  async updateComment(repo: string, commentId: number, body: string, marker: CommentMarker): Promise<boolean> {
+    const { owner, repo: repoName } = this.parseRepo(repo);
+
+    try {
+      await octokit.issues.updateComment({
+        owner,
+        repo: repoName,
+        comment_id: commentId,
+        body: withMarker(body, marker),
+      });
+      return true;
+    } catch (error: unknown) {
+      if ((error as { status?: number }).status !== 404) throw error;
+      return false;
+    }
+  }
+
+  /**
+   * Login the agents comment as: CHERRY_BOT_LOGIN, else the account behind GITHUB_TOKEN.
+   * Null when it can't be determined (installation tokens can't read /user).
+   */
+  async getBotLogin(): Promise<string | null> {
+    if (process.env.CHERRY_BOT_LOGIN) return process.env.CHERRY_BOT_LOGIN;
+
+    this.botLogin ??= octokit.users.getAuthenticated()
+      .then(({ data }) => data.login)
+      .catch(() => {
+        console.warn('[GitHub] Could not look up the bot login; set CHERRY_BOT_LOGIN to ignore its comments by author');
+        return null;
+      });
+    return this.botLogin;
+  }
+
+  /**
+   * A user's permission on the repository. Uses role_name, which tells maintain and
+   * triage apart from write and read; custom roles fall back to their base permission.
+   */
+  async getRepositoryPermission(repo: string, username: string): Promise<RepoPermission> {
+    const { owner, repo: repoName } = this.parseRepo(repo);
+
+    try {
+      const { data } = await octokit.repos.getCollaboratorPermissionLevel({ owner, repo: repoName, username });
+      const known: RepoPermission[] = ['admin', 'maintain', 'write', 'triage', 'read', 'none'];
+      return known.includes(data.role_name as RepoPermission) ? data.role_name as RepoPermission : data.permission as RepoPermission;
+    } catch (error: unknown) {
+      // Not a collaborator (or no such user)
+      if ((error as { status?: number }).status !== 404) throw error;
+      return 'none';
+    }
+  }
+
+  async isTeamMember(org: string, teamSlug: string, username: string): Promise<boolean> {
+    try {
+      const { data } = await octokit.teams.getMembershipForUserInOrg({ org, team_slug: teamSlug, username });
+      return data.state === 'active';
+    } catch (error: unknown) {
+      if ((error as { status?: number }).status !== 404) throw error;
+      return false;
+    }
   }
 
   async getIssue(repo: string, issueNumber: number) {
@@ -49,6 +122,20 @@ export class GitHubService {
     return data;
   }
 
+  async getPullRequestDiff(repo: string, prNumber: number): Promise<string> {
+    const { owner, repo: repoName } = this.parseRepo(repo);
+
+    const { data } = await octokit.pulls.get({
+      owner,
+      repo: repoName,
+      pull_number: prNumber,
+      mediaType: { format: 'diff' },
+    });
+
+    // With the diff media type the response body is the raw diff
+    return data as unknown as string;
+  }
+
   async addLabel(repo: string, issueNumber: number, label: string): Promise<void> {
     const { owner, repo: repoName } = this.parseRepo(repo);
     
@@ -0,0 +1,93 @@
+/**
+ * In-process FIFO queue for webhook jobs. Jobs run one at a time by default: every
+ * job shares the REPO_PATH checkout, so two agents must not edit it at once.
+ * Redeliveries (same id) are dropped while the original is still remembered.
+ */
+
+export interface Job {
+  id: string;        // X-GitHub-Delivery, used to drop redeliveries
+  label: string;     // For logs, e.g. "agent_start org/repo#42"
+  run: () => Promise<void>;
+}
+
+export interface JobQueueStats {
+  queued: number;
+  running: number;
+  completed: number;
+  failed: number;
+}
+
+const MAX_REMEMBERED_IDS = 1000;
+
+export class JobQueue {
+  private pending: Job[] = [];
+  private running = 0;
+  private seen = new Set<string>();
+  private idleWaiters: (() => void)[] = [];
+  private counters = { completed: 0, failed: 0 };
+
+  constructor(private concurrency = 1) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Job queue concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  get stats(): JobQueueStats {
+    return { queued: this.pending.length, running: this.running, ...this.counters };
+  }
+
+  /**
+   * Add a job; returns false if a job with the same id was already accepted
+   */
+  enqueue(job: Job): boolean {
+    if (this.seen.has(job.id)) {
+      console.log(`[Queue] Skipping duplicate delivery ${job.id} (${job.label})`);
+      return false;
+    }
+    this.seen.add(job.id);
+    if (this.seen.size > MAX_REMEMBERED_IDS) {
+      this.seen.delete(this.seen.values().next().value!);
+    }
+
+    this.pending.push(job);
+    console.log(`[Queue] Queued ${job.label} (${this.pending.length} waiting, ${this.running} running)`);
+    this.next();
+    return true;
+  }
+
+  /**
+   * Resolves once nothing is queued or running
+   */
+  onIdle(): Promise<void> {
+    if (this.pending.length === 0 && this.running === 0) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private next(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift()!;
+      this.running++;
+      void this.runJob(job);
+    }
+    if (this.pending.length === 0 && this.running === 0) {
+      this.idleWaiters.splice(0).forEach(resolve => resolve());
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const started = Date.now();
+    console.log(`[Queue] Running ${job.label}`);
+    try {
+      await job.run();
+      this.counters.completed++;
+      console.log(`[Queue] Finished ${job.label} in ${Math.round((Date.now() - started) / 1000)}s`);
+    } catch (error) {
+      // One failed event must not take the server down
+      this.counters.failed++;
+      console.error(`[Queue] ${job.label} failed:`, error);
+    } finally {
+      this.running--;
+      this.next();
+    }
+  }
+}
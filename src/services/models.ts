@@ -0,0 +1,65 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { CherryConfig, ModelRole, ModelSettings } from '../types/index.js';
+import { recordUsage } from './usage.js';
+
+const anthropic = new Anthropic();
+
+// HTTP statuses worth retrying on a different model
+const FALLBACK_STATUSES = [429, 529];
+
+export type MessageParams = Omit<Anthropic.MessageCreateParamsNonStreaming, 'model' | 'temperature'>;
+
+/**
+ * Resolve the model settings for a role. The call site's max_tokens is the default;
+ * `models.<role>` in the repo config overrides any field, then the global
+ * `model` / `fallbackModels` fill in the rest.
+ */
+export function resolveModel(config: CherryConfig, role: ModelRole, defaultMaxTokens: number): ModelSettings {
+  const override = config.models[role] || {};
+  const model = override.model || config.model;
+
+  return {
+    model,
+    maxTokens: override.maxTokens ?? defaultMaxTokens,
+    temperature: override.temperature,
+    fallbacks: (override.fallbacks || config.fallbackModels).filter(m => m !== model),
+  };
+}
+
+function shouldFallBack(error: unknown): boolean {
+  if (!(error instanceof Anthropic.APIError)) return false;
+  return FALLBACK_STATUSES.includes(error.status ?? 0) || /overloaded/i.test(error.message);
+}
+
+/**
+ * Single entry point for model calls. Picks the model for the role and walks the
+ * fallback chain when a model is overloaded or rate limited (after the SDK's own retries).
+ * Token usage is recorded against any active usage meters.
+ */
+export async function createMessage(
+  config: CherryConfig,
+  role: ModelRole,
+  params: MessageParams
+): Promise<Anthropic.Message> {
+  const settings = resolveModel(config, role, params.max_tokens);
+  const chain = [settings.model, ...settings.fallbacks];
+
+  for (let i = 0; i < chain.length; i++) {
+    try {
+      const response = await anthropic.messages.create({
+        ...params,
+        model: chain[i],
+        max_tokens: settings.maxTokens,
+        ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+      });
+      recordUsage(role, response.model || chain[i], response.usage);
+      return response;
+    } catch (error) {
+      if (i === chain.length - 1 || !shouldFallBack(error)) throw error;
+      console.warn(`[Models] ${chain[i]} unavailable for ${role} (${(error as Error).message}), falling back to ${chain[i + 1]}`);
+    }
+  }
+
+  // Unreachable: the loop either returns or throws
+  throw new Error(`No model available for ${role}`);
+}
@@ -0,0 +1,42 @@
+import { AgentSession, AgentPhase, SessionStatus, ConversationMessage, TeamLeadState } from '../types/index.js';
+import { SupabaseSessionStore } from './stores/supabase.js';
+import { FileSessionStore } from './stores/file.js';
+
+/**
+ * Storage backend for agent sessions. Every implementation must behave the same:
+ * - getSession returns null when no session exists for (repo, issue)
+ * - createSession fails if a session already exists for (repo, issue)
+ * - updatePhase/updateStatus/updateTeamLeadState are no-ops for unknown ids
+ * - addMessage/updateMetadata fail for unknown ids
+ * - addMessage appends and updateMetadata shallow-merges atomically, so concurrent
+ *   writers never lose each other's entries
+ * - acquireLock succeeds if the run lock is free, expired, or already held by owner
+ */
+export interface SessionStore {
+  getSession(repo: string, issueNumber: number): Promise<AgentSession | null>;
+  createSession(repo: string, issueNumber: number, initialMetadata: Record<string, unknown>): Promise<AgentSession>;
+  updatePhase(sessionId: string, phase: AgentPhase): Promise<void>;
+  updateStatus(sessionId: string, status: SessionStatus): Promise<void>;
+  addMessage(sessionId: string, message: ConversationMessage): Promise<void>;
+  updateMetadata(sessionId: string, metadata: Record<string, unknown>): Promise<void>;
+  updateTeamLeadState(sessionId: string, state: TeamLeadState): Promise<void>;
+  acquireLock(sessionId: string, owner: string, ttlMs: number): Promise<boolean>;
+  releaseLock(sessionId: string, owner: string): Promise<void>;
+}
+
+export type SessionStoreKind = 'supabase' | 'file';
+
+/**
+ * Select the session backend from SESSION_STORE ("supabase" by default, or "file").
+ * The file backend writes to SESSION_STORE_PATH (default: .cherry/sessions.json).
+ */
+export function createSessionStore(kind = process.env.SESSION_STORE || 'supabase'): SessionStore {
+  switch (kind as SessionStoreKind) {
+    case 'supabase':
+      return new SupabaseSessionStore();
+    case 'file':
+      return new FileSessionStore(process.env.SESSION_STORE_PATH || '.cherry/sessions.json');
+    default:
+      throw new Error(`Unknown SESSION_STORE: ${kind} (expected "supabase" or "file")`);
+  }
+}
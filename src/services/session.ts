@@ -1,20 +1,22 @@
-import { supabase } from '../supabase/client.js';
-import { AgentSession, AgentPhase, SessionStatus, ConversationMessage } from '../types/index.js';
+import { randomUUID } from 'crypto';
+import { AgentSession, AgentPhase, SessionStatus, ConversationMessage, TeamLeadState } from '../types/index.js';
+import { SessionStore, createSessionStore } from './session-store.js';
+
+const LOCK_TTL_MS = 30 * 60 * 1000;      // Crashed runs expire after this; live runs renew it
+const LOCK_WAIT_MS = 25 * 60 * 1000;     // How long a second event waits for the current run
+const LOCK_POLL_INTERVAL_MS = 10 * 1000;
+
+export interface LockOptions {
+  ttlMs?: number;
+  waitMs?: number;
+  pollIntervalMs?: number;
+}
 
 export class SessionService {
-  async getSession(repo: string, issueNumber: number): Promise<AgentSession | null> {
-    const { data, error } = await supabase
-      .from('agent_sessions')
-      .select('*')
-      .eq('repo', repo)
-      .eq('issue_number', issueNumber)
-      .single();
+  constructor(private store: SessionStore) {}
 
-    if (error && error.code !== 'PGRST116') {
-      throw error;
-    }
-
-    return data as AgentSession | null;
+  async getSession(repo: string, issueNumber: number): Promise<AgentSession | null> {
+    return this.store.getSession(repo, issueNumber);
   }
 
   async createSession(
@@ -22,82 +24,73 @@ export class SessionService {
     issueNumber: number,
     initialMetadata: Record<string, unknown> = {}
   ): Promise<AgentSession> {
-    const { data, error } = await supabase
-      .from('agent_sessions')
-      .insert({
-        repo,
-        issue_number: issueNumber,
-        current_phase: 'clarifying',
-        status: 'active',
-        conversation: [],
-        metadata: initialMetadata,
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-    return data as AgentSession;
+    return this.store.createSession(repo, issueNumber, initialMetadata);
   }
 
   async updatePhase(sessionId: string, phase: AgentPhase): Promise<void> {
-    const { error } = await supabase
-      .from('agent_sessions')
-      .update({ current_phase: phase })
-      .eq('id', sessionId);
-
-    if (error) throw error;
+    await this.store.updatePhase(sessionId, phase);
   }
 
   async updateStatus(sessionId: string, status: SessionStatus): Promise<void> {
-    const { error } = await supabase
-      .from('agent_sessions')
-      .update({ status })
-      .eq('id', sessionId);
-
-    if (error) throw error;
+    await this.store.updateStatus(sessionId, status);
   }
 
   async addMessage(sessionId: string, message: ConversationMessage): Promise<void> {
-    const { data: session, error: fetchError } = await supabase
-      .from('agent_sessions')
-      .select('conversation')
-      .eq('id', sessionId)
-      .single();
-
-    if (fetchError) throw fetchError;
-
-    const conversation = [...(session.conversation || []), message];
-
-    const { error: updateError } = await supabase
-      .from('agent_sessions')
-      .update({ conversation })
-      .eq('id', sessionId);
-
-    if (updateError) throw updateError;
+    await this.store.addMessage(sessionId, message);
   }
 
   async updateMetadata(
     sessionId: string,
     metadata: Record<string, unknown>
   ): Promise<void> {
-    const { data: session, error: fetchError } = await supabase
-      .from('agent_sessions')
-      .select('metadata')
-      .eq('id', sessionId)
-      .single();
-
-    if (fetchError) throw fetchError;
+    await this.store.updateMetadata(sessionId, metadata);
+  }
 
-    const mergedMetadata = { ...(session.metadata || {}), ...metadata };
+  async updateTeamLeadState(sessionId: string, state: TeamLeadState): Promise<void> {
+    await this.store.updateTeamLeadState(sessionId, state);
+  }
 
-    const { error: updateError } = await supabase
-      .from('agent_sessions')
-      .update({ metadata: mergedMetadata })
-      .eq('id', sessionId);
+  /**
+   * Run fn while holding the session's run lock, so two events for the same issue
+   * never drive agents in parallel. Waits for the current holder to finish (or for
+   * its lock to expire) and throws if the lock can't be taken within waitMs.
+   *
+   * Each call is its own lock holder, so two jobs in one process exclude each other too.
+   * The lock is renewed while fn runs: webhook-server runs have no workflow timeout.
+   */
+  async withLock<T>(sessionId: string, fn: () => Promise<T>, options: LockOptions = {}): Promise<T> {
+    const {
+      ttlMs = LOCK_TTL_MS,
+      waitMs = LOCK_WAIT_MS,
+      pollIntervalMs = LOCK_POLL_INTERVAL_MS,
+    } = options;
+    const deadline = Date.now() + waitMs;
+    const owner = `${process.env.GITHUB_RUN_ID || 'local'}:${process.pid}:${randomUUID()}`;
+
+    while (!(await this.store.acquireLock(sessionId, owner, ttlMs))) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for session lock: ${sessionId}`);
+      }
+      console.log(`[Session] ${sessionId} is locked by another run, waiting...`);
+      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+    }
 
-    if (updateError) throw updateError;
+    // Re-acquiring as the same owner extends locked_until
+    const renewal = setInterval(() => {
+      this.store.acquireLock(sessionId, owner, ttlMs)
+        .then(renewed => {
+          if (!renewed) console.warn(`[Session] Lost the lock on ${sessionId} to another run`);
+        })
+        .catch(error => console.warn(`[Session] Could not renew the lock on ${sessionId}: ${error instanceof Error ? error.message : error}`));
+    }, Math.max(1000, Math.floor(ttlMs / 3)));
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(renewal);
+      await this.store.releaseLock(sessionId, owner);
+    }
   }
 }
 
-export const sessionService = new SessionService();
-
+export const sessionService = new SessionService(createSessionStore());
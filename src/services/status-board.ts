@@ -0,0 +1,115 @@
+import { AgentName, AgentSession, Checkpoint, CommentMarker, Delegation, SessionUsage, TeamLeadState } from '../types/index.js';
+import { sessionService } from './session.js';
+import { githubService } from './github.js';
+import { formatCost, formatUsageSummary } from './usage.js';
+
+/**
+ * One comment per Team Lead session that is edited as work progresses, instead of a
+ * new comment for every delegation and result. Its id is kept in session metadata as
+ * `statusCommentId`; if the comment is deleted, the next update posts a new one.
+ */
+
+export interface StatusBoardUpdate {
+  headline: string;                 // e.g. "⏳ Running implementer"
+  running?: { agent: AgentName; focus?: string };
+  state: TeamLeadState;
+  usage: SessionUsage;
+}
+
+const MAX_TIMELINE_ROWS = 30;
+const MAX_DETAILED_OUTPUTS = 5;    // Most recent delegations whose output is shown
+const MAX_OUTPUT_CHARS = 3000;
+
+export class StatusBoard {
+  private commentId: number | null;
+  private marker: CommentMarker;
+
+  constructor(private session: AgentSession, private repo: string, private issueNumber: number) {
+    this.commentId = (session.metadata.statusCommentId as number | undefined) ?? null;
+    this.marker = { agent: 'team-lead', kind: 'board', sessionId: session.id };
+  }
+
+  /**
+   * Re-render the board. Failures are logged, not thrown: the board is informational.
+   */
+  async update(update: StatusBoardUpdate): Promise<void> {
+    try {
+      const latest = await sessionService.getSession(this.repo, this.issueNumber) || this.session;
+      this.commentId ??= (latest.metadata.statusCommentId as number | undefined) ?? null;
+      const body = renderStatusBoard(latest, update);
+
+      if (this.commentId && await githubService.updateComment(this.repo, this.commentId, body, this.marker)) {
+        return;
+      }
+
+      this.commentId = await githubService.postComment(this.repo, this.issueNumber, body, this.marker);
+      await sessionService.updateMetadata(this.session.id, { statusCommentId: this.commentId });
+      console.log(`[StatusBoard] Created status comment ${this.commentId} for ${this.repo}#${this.issueNumber}`);
+    } catch (error) {
+      console.warn(`[StatusBoard] Could not update the status comment: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function renderStatusBoard(session: AgentSession, update: StatusBoardUpdate): string {
+  const { state, usage, running } = update;
+  const checkpoints = (session.metadata.checkpoints as Checkpoint[] | undefined) || [];
+  const lastGood = [...checkpoints].reverse().find(c => c.good);
+  const prUrl = session.metadata.prUrl as string | undefined;
+
+  const facts = [
+    ['Phase', session.current_phase],
+    ['Status', session.status],
+    ['Strategy', state.currentStrategy],
+    ['Cost', usage.total.calls > 0 ? `~${formatCost(usage.total.costUsd)} (${usage.total.calls} model calls)` : ''],
+    ['Pull request', prUrl || ''],
+    ['Last good checkpoint', lastGood ? `\`${lastGood.id.slice(0, 7)}\` ${lastGood.label}` : ''],
+  ].filter(([, value]) => value);
+
+  const sections = [
+    '## 🤖 Agent status',
+    `**${update.headline}**${running?.focus ? `\n\n_Focus: ${running.focus}_` : ''}`,
+    ['| | |', '|---|---|', ...facts.map(([name, value]) => `| ${name} | ${value} |`)].join('\n'),
+    renderTimeline(state.delegations, running?.agent),
+    renderOutputs(state.delegations),
+    usage.total.calls > 0
+      ? `<details>\n<summary>💰 Cost by agent</summary>\n\n${formatUsageSummary(usage)}\n</details>`
+      : '',
+    `_Updated ${new Date().toISOString().replace('T', ' ').slice(0, 16)} UTC. This comment is edited as the work progresses._`,
+  ];
+
+  return sections.filter(Boolean).join('\n\n');
+}
+
+function renderTimeline(delegations: Delegation[], runningAgent?: AgentName): string {
+  if (delegations.length === 0 && !runningAgent) return '';
+
+  const offset = Math.max(0, delegations.length - MAX_TIMELINE_ROWS);
+  const rows = delegations.slice(offset).map((d, i) =>
+    `| ${offset + i + 1} | ${d.agent} | ${d.output.success ? '✅' : '❌'} | ${d.usage ? formatCost(d.usage.costUsd) : ''} | ${d.timestamp.slice(0, 16).replace('T', ' ')} |`
+  );
+  if (runningAgent) rows.push(`| ${delegations.length + 1} | ${runningAgent} | ⏳ running | | |`);
+
+  return [
+    '### Timeline',
+    offset > 0 ? `_${offset} earlier delegations not shown._\n` : '',
+    '| # | Agent | Result | Cost | Finished (UTC) |',
+    '|---|-------|--------|------|----------------|',
+    ...rows,
+  ].filter(Boolean).join('\n');
+}
+
+function renderOutputs(delegations: Delegation[]): string {
+  const offset = Math.max(0, delegations.length - MAX_DETAILED_OUTPUTS);
+
+  return delegations.slice(offset).map((d, i) => {
+    const text = d.output.success ? d.output.output : `${d.output.error || 'Failed'}\n\n${d.output.output || ''}`;
+    if (!text?.trim()) return '';
+    const clipped = text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}\n\n_… truncated_` : text;
+    return `<details>\n<summary>${d.output.success ? '✅' : '❌'} #${offset + i + 1} ${d.agent} output</summary>\n\n${clipped.trim()}\n</details>`;
+  }).filter(Boolean).join('\n');
+}
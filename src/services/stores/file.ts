@@ -0,0 +1,158 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { AgentSession, AgentPhase, SessionStatus, ConversationMessage, TeamLeadState } from '../../types/index.js';
+import { SessionStore } from '../session-store.js';
+
+/**
+ * JSON-file session store for local runs, tests and air-gapped environments.
+ * The whole table lives in one file that is rewritten atomically (temp file + rename);
+ * writes within this process are serialized. Run locks are stored on the session
+ * record, so separate processes sharing the file still take turns.
+ */
+export class FileSessionStore implements SessionStore {
+  private filePath: string;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async getSession(repo: string, issueNumber: number): Promise<AgentSession | null> {
+    const sessions = await this.load();
+    const session = sessions.find(s => s.repo === repo && s.issue_number === issueNumber);
+    return session || null;
+  }
+
+  async createSession(
+    repo: string,
+    issueNumber: number,
+    initialMetadata: Record<string, unknown> = {}
+  ): Promise<AgentSession> {
+    return this.mutate(sessions => {
+      if (sessions.some(s => s.repo === repo && s.issue_number === issueNumber)) {
+        throw new Error(`Session already exists for ${repo}#${issueNumber}`);
+      }
+
+      const now = new Date().toISOString();
+      const session: AgentSession = {
+        id: randomUUID(),
+        repo,
+        issue_number: issueNumber,
+        current_phase: 'clarifying',
+        status: 'active',
+        conversation: [],
+        metadata: initialMetadata,
+        team_lead_state: {},
+        created_at: now,
+        updated_at: now,
+      };
+      sessions.push(session);
+      return session;
+    });
+  }
+
+  async updatePhase(sessionId: string, phase: AgentPhase): Promise<void> {
+    await this.update(sessionId, false, session => {
+      session.current_phase = phase;
+    });
+  }
+
+  async updateStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    await this.update(sessionId, false, session => {
+      session.status = status;
+    });
+  }
+
+  async addMessage(sessionId: string, message: ConversationMessage): Promise<void> {
+    await this.update(sessionId, true, session => {
+      session.conversation = [...(session.conversation || []), message];
+    });
+  }
+
+  async updateMetadata(sessionId: string, metadata: Record<string, unknown>): Promise<void> {
+    await this.update(sessionId, true, session => {
+      session.metadata = { ...(session.metadata || {}), ...metadata };
+    });
+  }
+
+  async updateTeamLeadState(sessionId: string, state: TeamLeadState): Promise<void> {
+    await this.update(sessionId, false, session => {
+      session.team_lead_state = state;
+    });
+  }
+
+  async acquireLock(sessionId: string, owner: string, ttlMs: number): Promise<boolean> {
+    return this.mutate(sessions => {
+      const session = sessions.find(s => s.id === sessionId);
+      if (!session) return false;
+
+      const now = Date.now();
+      const free = !session.locked_until || Date.parse(session.locked_until) < now;
+      if (!free && session.locked_by !== owner) return false;
+
+      session.locked_by = owner;
+      session.locked_until = new Date(now + ttlMs).toISOString();
+      return true;
+    });
+  }
+
+  async releaseLock(sessionId: string, owner: string): Promise<void> {
+    await this.mutate(sessions => {
+      const session = sessions.find(s => s.id === sessionId);
+      if (session && session.locked_by === owner) {
+        session.locked_by = null;
+        session.locked_until = null;
+      }
+    });
+  }
+
+  /**
+   * Apply a change to one session. Mirrors Supabase semantics: a plain update of an
+   * unknown id is a no-op, while read-modify-write operations fail.
+   */
+  private async update(
+    sessionId: string,
+    mustExist: boolean,
+    apply: (session: AgentSession) => void
+  ): Promise<void> {
+    await this.mutate(sessions => {
+      const session = sessions.find(s => s.id === sessionId);
+      if (!session) {
+        if (mustExist) throw new Error(`Session not found: ${sessionId}`);
+        return;
+      }
+      apply(session);
+      session.updated_at = new Date().toISOString();
+    });
+  }
+
+  private mutate<T>(change: (sessions: AgentSession[]) => T): Promise<T> {
+    const run = this.queue.then(async () => {
+      const sessions = await this.load();
+      const result = change(sessions);
+      await this.save(sessions);
+      return result;
+    });
+    // Keep the queue alive even if this change fails
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async load(): Promise<AgentSession[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf-8');
+      return JSON.parse(raw) as AgentSession[];
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async save(sessions: AgentSession[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(sessions, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,111 @@
+import { getSupabase } from '../../supabase/client.js';
+import { AgentSession, AgentPhase, SessionStatus, ConversationMessage, TeamLeadState } from '../../types/index.js';
+import { SessionStore } from '../session-store.js';
+
+export class SupabaseSessionStore implements SessionStore {
+  async getSession(repo: string, issueNumber: number): Promise<AgentSession | null> {
+    const { data, error } = await getSupabase()
+      .from('agent_sessions')
+      .select('*')
+      .eq('repo', repo)
+      .eq('issue_number', issueNumber)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw error;
+    }
+
+    return data as AgentSession | null;
+  }
+
+  async createSession(
+    repo: string,
+    issueNumber: number,
+    initialMetadata: Record<string, unknown> = {}
+  ): Promise<AgentSession> {
+    const { data, error } = await getSupabase()
+      .from('agent_sessions')
+      .insert({
+        repo,
+        issue_number: issueNumber,
+        current_phase: 'clarifying',
+        status: 'active',
+        conversation: [],
+        metadata: initialMetadata,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as AgentSession;
+  }
+
+  async updatePhase(sessionId: string, phase: AgentPhase): Promise<void> {
+    const { error } = await getSupabase()
+      .from('agent_sessions')
+      .update({ current_phase: phase })
+      .eq('id', sessionId);
+
+    if (error) throw error;
+  }
+
+  async updateStatus(sessionId: string, status: SessionStatus): Promise<void> {
+    const { error } = await getSupabase()
+      .from('agent_sessions')
+      .update({ status })
+      .eq('id', sessionId);
+
+    if (error) throw error;
+  }
+
+  // Append and merge run server-side (see 003_atomic_session_updates.sql)
+  async addMessage(sessionId: string, message: ConversationMessage): Promise<void> {
+    const { error } = await getSupabase().rpc('append_session_message', {
+      p_session_id: sessionId,
+      p_message: message,
+    });
+
+    if (error) throw error;
+  }
+
+  async updateMetadata(
+    sessionId: string,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await getSupabase().rpc('merge_session_metadata', {
+      p_session_id: sessionId,
+      p_metadata: metadata,
+    });
+
+    if (error) throw error;
+  }
+
+  async updateTeamLeadState(sessionId: string, state: TeamLeadState): Promise<void> {
+    const { error } = await getSupabase()
+      .from('agent_sessions')
+      .update({ team_lead_state: state })
+      .eq('id', sessionId);
+
+    if (error) throw error;
+  }
+
+  async acquireLock(sessionId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const { data, error } = await getSupabase().rpc('acquire_session_lock', {
+      p_session_id: sessionId,
+      p_owner: owner,
+      p_ttl_seconds: Math.ceil(ttlMs / 1000),
+    });
+
+    if (error) throw error;
+    return data === true;
+  }
+
+  async releaseLock(sessionId: string, owner: string): Promise<void> {
+    const { error } = await getSupabase().rpc('release_session_lock', {
+      p_session_id: sessionId,
+      p_owner: owner,
+    });
+
+    if (error) throw error;
+  }
+}
@@ -0,0 +1,328 @@
+/**
+ * Parsers that turn raw test/lint/type-check output into individual failures.
+ *
+ * Supported formats:
+ * - Jest / Vitest JSON reporter (`--json`, `--reporter=json`)
+ * - ESLint JSON formatter (`-f json`)
+ * - JUnit XML
+ * - TAP
+ * - tsc diagnostics (plain and `--pretty`)
+ */
+
+export type FailureSource = 'jest' | 'eslint' | 'junit' | 'tap' | 'tsc';
+
+export interface TestFailure {
+  source: FailureSource;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  name?: string;   // Test name, or ESLint rule / TS error code
+}
+
+const MAX_MESSAGE_LENGTH = 300;
+
+/**
+ * Extract failures from command output. Structured formats are tried first;
+ * returns an empty array when nothing recognisable is found.
+ */
+export function parseTestOutput(output: string): TestFailure[] {
+  const clean = stripAnsi(output);
+
+  for (const parse of [parseJsonReport, parseJUnitXml, parseTap]) {
+    const failures = parse(clean);
+    if (failures.length > 0) return failures;
+  }
+
+  return parseTscDiagnostics(clean);
+}
+
+// ============================================================================
+// JSON (Jest / Vitest / ESLint)
+// ============================================================================
+
+interface JestAssertion {
+  status: string;
+  title?: string;
+  fullName?: string;
+  failureMessages?: string[];
+  location?: { line: number; column: number } | null;
+}
+
+interface JestSuite {
+  name?: string;
+  status?: string;
+  message?: string;
+  assertionResults?: JestAssertion[];
+}
+
+interface EslintFileResult {
+  filePath: string;
+  messages: { ruleId: string | null; severity: number; message: string; line?: number; column?: number }[];
+}
+
+function parseJsonReport(output: string): TestFailure[] {
+  const report = extractJson(output);
+  if (!report) return [];
+
+  if (Array.isArray(report) && report.every(isEslintFileResult)) {
+    return parseEslint(report);
+  }
+
+  if (typeof report === 'object' && Array.isArray((report as { testResults?: unknown }).testResults)) {
+    return parseJest((report as { testResults: JestSuite[] }).testResults);
+  }
+
+  return [];
+}
+
+function parseJest(suites: JestSuite[]): TestFailure[] {
+  const failures: TestFailure[] = [];
+
+  for (const suite of suites) {
+    const failed = (suite.assertionResults || []).filter(a => a.status === 'failed');
+
+    // Suite failed to run at all (syntax error, missing import...)
+    if (failed.length === 0 && suite.status === 'failed' && suite.message) {
+      failures.push({ source: 'jest', file: suite.name, message: firstLines(suite.message) });
+      continue;
+    }
+
+    for (const assertion of failed) {
+      const rawMessage = assertion.failureMessages?.join('\n') || 'Test failed';
+      failures.push({
+        source: 'jest',
+        file: suite.name,
+        line: assertion.location?.line ?? lineFromStack(rawMessage, suite.name),
+        column: assertion.location?.column,
+        name: assertion.fullName || assertion.title,
+        message: firstLines(rawMessage),
+      });
+    }
+  }
+
+  return failures;
+}
+
+function parseEslint(files: EslintFileResult[]): TestFailure[] {
+  return files.flatMap(file =>
+    file.messages
+      .filter(m => m.severity >= 2)
+      .map(m => ({
+        source: 'eslint' as const,
+        file: file.filePath,
+        line: m.line,
+        column: m.column,
+        name: m.ruleId || undefined,
+        message: m.message,
+      }))
+  );
+}
+
+function isEslintFileResult(value: unknown): value is EslintFileResult {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as EslintFileResult).filePath === 'string' &&
+    Array.isArray((value as EslintFileResult).messages);
+}
+
+/**
+ * Find a JSON document in output that may be wrapped in npm/reporter noise
+ */
+function extractJson(output: string): unknown {
+  const trimmed = output.trim();
+  const candidates = [trimmed];
+
+  for (const [open, close] of [['{', '}'], ['[', ']']]) {
+    const start = trimmed.search(new RegExp(`^\\${open}`, 'm'));
+    const end = trimmed.lastIndexOf(close);
+    if (start >= 0 && end > start) candidates.push(trimmed.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    if (!candidate.startsWith('{') && !candidate.startsWith('[')) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// JUnit XML
+// ============================================================================
+
+function parseJUnitXml(output: string): TestFailure[] {
+  if (!/<testsuites?[\s>]/.test(output)) return [];
+
+  const failures: TestFailure[] = [];
+  const testcasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of output.matchAll(testcasePattern)) {
+    const body = match[2] || '';
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    if (!failure) continue;
+
+    const caseAttrs = parseXmlAttributes(match[1]);
+    const failureAttrs = parseXmlAttributes(failure[2]);
+    const text = decodeXmlEntities((failure[3] || '').replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1'));
+    const file = caseAttrs.file || caseAttrs.classname;
+
+    failures.push({
+      source: 'junit',
+      file,
+      line: caseAttrs.line ? Number(caseAttrs.line) : lineFromStack(text, file),
+      name: caseAttrs.name,
+      message: firstLines(failureAttrs.message || text || 'Test failed'),
+    });
+  }
+
+  return failures;
+}
+
+function parseXmlAttributes(raw: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const [, key, value] of raw.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attrs[key] = decodeXmlEntities(value);
+  }
+  return attrs;
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+// ============================================================================
+// TAP
+// ============================================================================
+
+function parseTap(output: string): TestFailure[] {
+  const lines = output.split('\n');
+  if (!lines.some(l => /^TAP version \d+/.test(l.trim()) || /^\d+\.\.\d+$/.test(l.trim()))) return [];
+
+  const failures: TestFailure[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(/^\s*not ok\s+\d+\s*(?:-\s*)?(.*?)(?:\s+#\s*(TODO|SKIP).*)?$/i);
+    if (!match || match[2]) continue;
+
+    // Optional YAML diagnostics block: "  ---" ... "  ..."
+    const diagnostics: Record<string, string> = {};
+    if (lines[i + 1]?.trim() === '---') {
+      let j = i + 2;
+      for (; j < lines.length && lines[j].trim() !== '...'; j++) {
+        const kv = lines[j].match(/^\s*(\w+):\s*['"]?(.*?)['"]?\s*$/);
+        if (kv && !(kv[1] in diagnostics)) diagnostics[kv[1]] = kv[2];
+      }
+      i = j;
+    }
+
+    const location = (diagnostics.at || '').match(/\(?([^\s()]+?):(\d+)(?::(\d+))?\)?$/);
+
+    failures.push({
+      source: 'tap',
+      name: match[1] || undefined,
+      file: diagnostics.file || location?.[1],
+      line: diagnostics.line ? Number(diagnostics.line) : location ? Number(location[2]) : undefined,
+      column: location?.[3] ? Number(location[3]) : undefined,
+      message: firstLines(diagnostics.message || match[1] || 'Test failed'),
+    });
+  }
+
+  return failures;
+}
+
+// ============================================================================
+// tsc
+// ============================================================================
+
+const TSC_PATTERNS = [
+  /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.+)$/,    // src/a.ts(12,5): error TS2322: ...
+  /^(.+?):(\d+):(\d+) - error (TS\d+): (.+)$/,      // src/a.ts:12:5 - error TS2322: ... (--pretty)
+];
+
+function parseTscDiagnostics(output: string): TestFailure[] {
+  const failures: TestFailure[] = [];
+
+  for (const line of output.split('\n')) {
+    for (const pattern of TSC_PATTERNS) {
+      const match = line.trim().match(pattern);
+      if (match) {
+        failures.push({
+          source: 'tsc',
+          file: match[1],
+          line: Number(match[2]),
+          column: Number(match[3]),
+          name: match[4],
+          message: match[5],
+        });
+        break;
+      }
+    }
+  }
+
+  return failures;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function stripAnsi(text: string): string {
+  return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+function firstLines(text: string, count = 3): string {
+  const message = text.trim().split('\n')
+    .map(l => l.trim())
+    .filter(l => l && !l.startsWith('at '))  // Drop stack frames
+    .slice(0, count)
+    .join(' ');
+  return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH)}…` : message;
+}
+
+/**
+ * Find the line number for a file in a stack trace, e.g. "at Object.<anonymous> (src/a.test.ts:12:5)"
+ */
+function lineFromStack(text: string, file?: string): number | undefined {
+  if (!file) return undefined;
+  const baseName = file.split(/[\\/]/).pop()!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = text.match(new RegExp(`${baseName}:(\\d+)(?::\\d+)?`));
+  return match ? Number(match[1]) : undefined;
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Markdown table of failures for GitHub comments
+ */
+export function formatFailuresTable(failures: TestFailure[], limit = 30): string {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  const rows = failures.slice(0, limit).map(f =>
+    `| ${f.file ? `\`${escape(f.file)}\`` : ''} | ${f.line ?? ''} | ${escape(f.name || '')} | ${escape(f.message)} |`
+  );
+  const more = failures.length > limit ? `\n\n_…and ${failures.length - limit} more_` : '';
+  return `| File | Line | Test / Rule | Message |\n|------|------|-------------|---------|\n${rows.join('\n')}${more}`;
+}
+
+/**
+ * Compact list of failures for feeding back to an agent
+ */
+export function formatFailuresList(failures: TestFailure[], limit = 50): string {
+  const lines = failures.slice(0, limit).map(f => {
+    const location = f.file ? `${f.file}${f.line ? `:${f.line}` : ''}${f.column ? `:${f.column}` : ''}` : '(unknown location)';
+    return `- ${location}${f.name ? ` [${f.name}]` : ''}: ${f.message}`;
+  });
+  if (failures.length > limit) lines.push(`- ...and ${failures.length - limit} more`);
+  return lines.join('\n');
+}
@@ -0,0 +1,142 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import Anthropic from '@anthropic-ai/sdk';
+import { ModelRole, SessionUsage, TokenUsage } from '../types/index.js';
+
+// USD per million tokens, matched against the model id (first match wins)
+const PRICING: { pattern: RegExp; input: number; output: number; cacheWrite: number; cacheRead: number }[] = [
+  { pattern: /opus/, input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  { pattern: /sonnet/, input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  { pattern: /3-5-haiku|haiku-4/, input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  { pattern: /haiku/, input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+];
+
+// Cache fields are returned by the API but missing from this SDK version's Usage type
+export type ResponseUsage = Anthropic.Usage & {
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+};
+
+const warnedModels = new Set<string>();
+
+export function emptyUsage(): TokenUsage {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0 };
+}
+
+export function estimateCost(model: string, usage: ResponseUsage): number {
+  const price = PRICING.find(p => p.pattern.test(model));
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`[Usage] No pricing for ${model}, counting its cost as $0`);
+    }
+    return 0;
+  }
+
+  const cost =
+    usage.input_tokens * price.input +
+    usage.output_tokens * price.output +
+    (usage.cache_creation_input_tokens || 0) * price.cacheWrite +
+    (usage.cache_read_input_tokens || 0) * price.cacheRead;
+  return cost / 1_000_000;
+}
+
+function addUsage(target: TokenUsage, extra: TokenUsage): void {
+  target.calls += extra.calls;
+  target.inputTokens += extra.inputTokens;
+  target.outputTokens += extra.outputTokens;
+  target.cacheCreationInputTokens += extra.cacheCreationInputTokens;
+  target.cacheReadInputTokens += extra.cacheReadInputTokens;
+  target.costUsd += extra.costUsd;
+}
+
+/**
+ * Accumulates usage for a scope (a session, a delegation...). Seeded from a
+ * previous snapshot so totals survive restarts between human replies.
+ */
+export class UsageMeter {
+  private usage: SessionUsage;
+
+  constructor(initial?: Partial<SessionUsage> | null) {
+    this.usage = {
+      total: { ...emptyUsage(), ...initial?.total },
+      byRole: Object.fromEntries(
+        Object.entries(initial?.byRole || {}).map(([role, u]) => [role, { ...emptyUsage(), ...u }])
+      ),
+      byModel: Object.fromEntries(
+        Object.entries(initial?.byModel || {}).map(([model, u]) => [model, { ...emptyUsage(), ...u }])
+      ),
+    };
+  }
+
+  record(role: ModelRole, model: string, usage: ResponseUsage): void {
+    const entry: TokenUsage = {
+      calls: 1,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheCreationInputTokens: usage.cache_creation_input_tokens || 0,
+      cacheReadInputTokens: usage.cache_read_input_tokens || 0,
+      costUsd: estimateCost(model, usage),
+    };
+
+    addUsage(this.usage.total, entry);
+    addUsage((this.usage.byRole[role] ||= emptyUsage()), entry);
+    addUsage((this.usage.byModel[model] ||= emptyUsage()), entry);
+  }
+
+  get total(): TokenUsage {
+    return { ...this.usage.total };
+  }
+
+  snapshot(): SessionUsage {
+    return JSON.parse(JSON.stringify(this.usage));
+  }
+}
+
+// Meters active for the current async call chain; nested scopes all see each call
+const activeMeters = new AsyncLocalStorage<UsageMeter[]>();
+
+/**
+ * Run fn with meter recording every model call made inside it, including calls
+ * from nested agents. Meters from enclosing scopes keep recording too.
+ */
+export function withUsageMeter<T>(meter: UsageMeter, fn: () => Promise<T>): Promise<T> {
+  const parents = activeMeters.getStore() || [];
+  return activeMeters.run([...parents, meter], fn);
+}
+
+/**
+ * Called by createMessage after every successful response
+ */
+export function recordUsage(role: ModelRole, model: string, usage: ResponseUsage): void {
+  for (const meter of activeMeters.getStore() || []) {
+    meter.record(role, model, usage);
+  }
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function formatCost(costUsd: number): string {
+  return `$${costUsd.toFixed(costUsd < 1 ? 4 : 2)}`;
+}
+
+/**
+ * Markdown cost breakdown per agent for GitHub comments
+ */
+export function formatUsageSummary(usage: SessionUsage): string {
+  const n = (value: number) => value.toLocaleString('en-US');
+  const rows = Object.entries(usage.byRole)
+    .sort(([, a], [, b]) => b.costUsd - a.costUsd)
+    .map(([role, u]) =>
+      `| ${role} | ${u.calls} | ${n(u.inputTokens)} | ${n(u.outputTokens)} | ${n(u.cacheReadInputTokens)} / ${n(u.cacheCreationInputTokens)} | ${formatCost(u.costUsd)} |`
+    );
+  const t = usage.total;
+
+  return [
+    '| Agent | Calls | Input | Output | Cache read / write | Cost |',
+    '|-------|-------|-------|--------|--------------------|------|',
+    ...rows,
+    `| **Total** | **${t.calls}** | **${n(t.inputTokens)}** | **${n(t.outputTokens)}** | **${n(t.cacheReadInputTokens)} / ${n(t.cacheCreationInputTokens)}** | **${formatCost(t.costUsd)}** |`,
+  ].join('\n');
+}
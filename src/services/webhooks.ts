@@ -0,0 +1,194 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { CherryConfig, EventPayload } from '../types/index.js';
+import { botCommentReason } from './bot-comments.js';
+
+/**
+ * Maps raw GitHub webhooks to orchestrator events, replacing the repository_dispatch
+ * relay in on-label.yml. Mapping is pure: no API calls, so recorded deliveries can be
+ * replayed offline (`cherry webhook <fixture>`).
+ *
+ * | Webhook                                   | Event                                  |
+ * |-------------------------------------------|----------------------------------------|
+ * | issues.labeled (start / stop / implement) | agent_start / agent_stop / agent_implement |
+ * | issue_comment.created on an agent issue   | human_response                         |
+ * | pull_request opened / ready_for_review    | qa_review (agent PRs only)             |
+ * | pull_request closed + merged              | post_merge_monitor (agent PRs only)    |
+ * | pull_request_review.submitted             | human_response on the linked issue     |
+ */
+
+export const SUPPORTED_WEBHOOKS = ['issues', 'issue_comment', 'pull_request', 'pull_request_review'];
+
+export type WebhookMapping =
+  | { eventType: string; payload: EventPayload }
+  | { ignored: string };
+
+// Only the fields we read; GitHub sends much more
+interface GitHubUser {
+  login: string;
+  type?: string;
+}
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  labels?: { name: string }[];
+  pull_request?: unknown;
+}
+
+interface GitHubPullRequest {
+  number: number;
+  title: string;
+  body: string | null;
+  draft?: boolean;
+  merged?: boolean;
+  head: { ref: string };
+}
+
+export interface WebhookBody {
+  action?: string;
+  repository?: { full_name: string };
+  sender?: GitHubUser;
+  label?: { name: string };
+  issue?: GitHubIssue;
+  comment?: { id: number; body: string; user: GitHubUser };
+  pull_request?: GitHubPullRequest;
+  review?: { id: number; body: string | null; state: string; user: GitHubUser };
+}
+
+// ============================================================================
+// SIGNATURES
+// ============================================================================
+
+export function signPayload(secret: string, rawBody: string | Buffer): string {
+  return `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+}
+
+/**
+ * Check X-Hub-Signature-256 against the raw request body, in constant time
+ */
+export function verifySignature(secret: string, rawBody: string | Buffer, signature: string | undefined): boolean {
+  if (!signature || !signature.startsWith('sha256=')) return false;
+  const expected = Buffer.from(signPayload(secret, rawBody));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ============================================================================
+// MAPPING
+// ============================================================================
+
+/**
+ * Issue an agent PR belongs to: its agent/issue-N branch, else a closing keyword in the body
+ */
+export function linkedIssue(pr: GitHubPullRequest): number | undefined {
+  const branch = pr.head.ref.match(/^agent\/issue-(\d+)$/);
+  if (branch) return Number(branch[1]);
+  const closes = (pr.body || '').match(/\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?) #(\d+)\b/i);
+  return closes ? Number(closes[1]) : undefined;
+}
+
+/**
+ * Turn a webhook (X-GitHub-Event name + parsed body) into an orchestrator event,
+ * or the reason it was ignored
+ */
+export function mapWebhook(eventName: string, body: WebhookBody, labels: CherryConfig['labels']): WebhookMapping {
+  const repo = body.repository?.full_name;
+  if (!repo) return { ignored: `${eventName} has no repository` };
+  const sender = body.sender?.login;
+
+  switch (eventName) {
+    case 'issues': {
+      if (body.action !== 'labeled' || !body.issue || !body.label) return { ignored: `issues.${body.action}` };
+      const issue = body.issue;
+      const base = { source_repo: repo, issue_number: issue.number, sender };
+
+      switch (body.label.name) {
+        case labels.start:
+          return {
+            eventType: 'agent_start',
+            payload: { action: 'start', ...base, issue_title: issue.title, issue_body: issue.body || '' },
+          };
+        case labels.stop:
+          return { eventType: 'agent_stop', payload: { action: 'stop', ...base } };
+        case labels.implement:
+          return { eventType: 'agent_implement', payload: { action: 'implement', ...base, issue_title: issue.title } };
+        default:
+          return { ignored: `label "${body.label.name}" is not an agent label` };
+      }
+    }
+
+    case 'issue_comment': {
+      const { issue, comment } = body;
+      if (body.action !== 'created' || !issue || !comment) return { ignored: `issue_comment.${body.action}` };
+      const botReason = botCommentReason({ body: comment.body, author: comment.user.login, authorType: comment.user.type });
+      if (botReason) return { ignored: `comment ${comment.id} is the bot's own: ${botReason}` };
+      if (!(issue.labels || []).some(l => l.name === labels.start)) {
+        return { ignored: `#${issue.number} has no "${labels.start}" label` };
+      }
+      return {
+        eventType: 'human_response',
+        payload: {
+          action: 'human_response',
+          source_repo: repo,
+          issue_number: issue.number,
+          comment_id: comment.id,
+          comment_body: comment.body,
+          comment_author: comment.user.login,
+          comment_author_type: comment.user.type,
+        },
+      };
+    }
+
+    case 'pull_request': {
+      const pr = body.pull_request;
+      if (!pr) return { ignored: 'pull_request without a pull request' };
+      const issueNumber = linkedIssue(pr);
+      if (!issueNumber) return { ignored: `PR #${pr.number} is not linked to an agent issue` };
+
+      const base = { source_repo: repo, issue_number: issueNumber, pr_number: pr.number, sender };
+      if (body.action === 'closed') {
+        if (!pr.merged) return { ignored: `PR #${pr.number} was closed without merging` };
+        return { eventType: 'post_merge_monitor', payload: { action: 'post_merge', ...base } };
+      }
+      if (['opened', 'reopened', 'ready_for_review'].includes(body.action || '') && !pr.draft) {
+        return {
+          eventType: 'qa_review',
+          payload: { action: 'qa_review', ...base, pr_title: pr.title, pr_body: pr.body || '' },
+        };
+      }
+      return { ignored: `pull_request.${body.action}${pr.draft ? ' (draft)' : ''}` };
+    }
+
+    case 'pull_request_review': {
+      const { pull_request: pr, review } = body;
+      if (body.action !== 'submitted' || !pr || !review) return { ignored: `pull_request_review.${body.action}` };
+      const botReason = botCommentReason({ body: review.body, author: review.user.login, authorType: review.user.type });
+      if (botReason) return { ignored: `review ${review.id} is the bot's own: ${botReason}` };
+      // Bare approvals need no reply; comments and change requests go to the session
+      if (!review.body?.trim() && review.state !== 'changes_requested') {
+        return { ignored: `review ${review.id} (${review.state}) has no text` };
+      }
+      const issueNumber = linkedIssue(pr);
+      if (!issueNumber) return { ignored: `PR #${pr.number} is not linked to an agent issue` };
+
+      const state = review.state.replace(/_/g, ' ');
+      return {
+        eventType: 'human_response',
+        payload: {
+          action: 'human_response',
+          source_repo: repo,
+          issue_number: issueNumber,
+          pr_number: pr.number,
+          comment_id: review.id,
+          comment_body: `Review on PR #${pr.number} (${state}):\n\n${review.body?.trim() || '(no comment)'}`,
+          comment_author: review.user.login,
+          comment_author_type: review.user.type,
+        },
+      };
+    }
+
+    default:
+      return { ignored: `unsupported event "${eventName}"` };
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkCommand, parseCommand } from './command-policy.js';
+import { ALLOWED_COMMANDS } from './definitions.js';
+
+describe('parseCommand', () => {
+  it('splits on whitespace and groups quoted arguments', () => {
+    assert.deepEqual(parseCommand('npm test -- --grep "adds two"'), ['npm', 'test', '--', '--grep', 'adds two']);
+    assert.deepEqual(parseCommand("npx eslint 'src/a b.ts' src\\ c.ts"), ['npx', 'eslint', 'src/a b.ts', 'src c.ts']);
+  });
+
+  it('accepts shell operators inside quotes', () => {
+    assert.deepEqual(parseCommand('npm test -- --grep "a; b | c && $(d)"'), ['npm', 'test', '--', '--grep', 'a; b | c && $(d)']);
+    assert.deepEqual(parseCommand("npm test -- '`id`'"), ['npm', 'test', '--', '`id`']);
+  });
+
+  it('rejects unquoted shell syntax', () => {
+    for (const command of ['npm test; rm -rf /', 'npm test | tee out', 'npm test && curl x', 'npm test $(id)', 'npm test > out']) {
+      assert.throws(() => parseCommand(command), /Shell syntax is not supported/, command);
+    }
+  });
+
+  it('rejects environment variable assignments', () => {
+    assert.throws(() => parseCommand('FOO=1 npm test'), /Environment variable assignments/);
+  });
+
+  it('rejects empty commands and unterminated quotes', () => {
+    assert.throws(() => parseCommand('   '), /Empty command/);
+    assert.throws(() => parseCommand('npm test "oops'), /Unterminated " quote/);
+  });
+});
+
+describe('checkCommand', () => {
+  const check = (command: string, rules = ALLOWED_COMMANDS) => checkCommand(parseCommand(command), rules);
+
+  it('allows commands that match an allow rule', () => {
+    assert.deepEqual(check('npm run build'), { allowed: true });
+    assert.deepEqual(check('yarn install --frozen-lockfile'), { allowed: true });
+  });
+
+  it('rejects commands no allow rule matches', () => {
+    assert.deepEqual(check('curl https://example.com'), { allowed: false, reason: 'no allow rule matches' });
+    assert.deepEqual(check('npm run deploy'), { allowed: false, reason: 'no allow rule matches' });
+  });
+
+  it('lets deny rules win over allow rules', () => {
+    assert.deepEqual(check('npm install -g x'), { allowed: false, reason: 'matches deny rule "!{npm,pnpm,yarn} ... {-g,--global} ..."' });
+    assert.deepEqual(
+      check('claude --print --dangerously-skip-permissions "do it"'),
+      { allowed: false, reason: 'matches deny rule "!claude ... --dangerously-skip-permissions ..."' }
+    );
+  });
+
+  it('matches zero or more arguments with "..."', () => {
+    const rules = ['npx tsc ...'];
+    assert.deepEqual(check('npx tsc', rules), { allowed: true });
+    assert.deepEqual(check('npx tsc --noEmit', rules), { allowed: true });
+    assert.deepEqual(check('npx tsc --noEmit -p tsconfig.json', rules), { allowed: true });
+    assert.equal(check('npx tsx src/index.ts', rules).allowed, false);
+  });
+
+  it('matches globs within a single argument', () => {
+    const rules = ['npx eslint src/*.ts'];
+    assert.deepEqual(check('npx eslint src/index.ts', rules), { allowed: true });
+    assert.equal(check('npx eslint src/index.ts src/other.ts', rules).allowed, false);
+    assert.equal(check('npx eslint lib/index.ts', rules).allowed, false);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Command policies for run_command.
+ *
+ * Commands are split into argv (no shell is involved) and matched against rules.
+ * A rule is a whitespace-separated list of argument patterns:
+ *
+ *   npm run {build,lint,test}     binary, subcommand and script must match exactly
+ *   npx tsc ...                   `...` matches any number of remaining arguments
+ *   npx eslint src/*.ts           `*` / `?` match within a single argument
+ *   !npm install -g ...           `!` makes it a deny rule; deny always wins
+ *
+ * A command is allowed when at least one allow rule matches and no deny rule does.
+ */
+
+export interface CommandDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+// Characters that only mean something to a shell; rejected unless quoted
+const SHELL_OPERATORS = /[;&|<>`$()]/;
+
+/**
+ * Split a command line into argv the way a POSIX shell would for simple commands:
+ * whitespace separates arguments, quotes group them, backslash escapes one character.
+ * Throws for shell syntax (pipes, redirects, chaining, substitution, env assignments).
+ */
+export function parseCommand(command: string): string[] {
+  const argv: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      quote = char;
+      inArg = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) argv.push(current);
+      current = '';
+      inArg = false;
+    } else if (SHELL_OPERATORS.test(char)) {
+      throw new Error(`Shell syntax is not supported ("${char}"). Run one command at a time without pipes, redirects or chaining.`);
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) throw new Error(`Unterminated ${quote} quote in command`);
+  if (inArg) argv.push(current);
+  if (argv.length === 0) throw new Error('Empty command');
+
+  if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(argv[0])) {
+    throw new Error('Environment variable assignments are not supported');
+  }
+
+  return argv;
+}
+
+interface ParsedRule {
+  source: string;
+  deny: boolean;
+  patterns: (RegExp | '...')[];
+}
+
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      pattern += '.*';
+    } else if (char === '?') {
+      pattern += '.';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      const options = glob.slice(i + 1, end).split(',').map(o => o.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      pattern += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function parseRule(source: string): ParsedRule {
+  const trimmed = source.trim();
+  const deny = trimmed.startsWith('!');
+  const tokens = (deny ? trimmed.slice(1) : trimmed).trim().split(/\s+/).filter(Boolean);
+  return {
+    source: trimmed,
+    deny,
+    patterns: tokens.map(t => (t === '...' ? '...' : globToRegExp(t))),
+  };
+}
+
+function matches(patterns: ParsedRule['patterns'], argv: string[]): boolean {
+  if (patterns.length === 0) return argv.length === 0;
+
+  const [head, ...rest] = patterns;
+  if (head === '...') {
+    // Try consuming 0..n arguments
+    for (let skip = 0; skip <= argv.length; skip++) {
+      if (matches(rest, argv.slice(skip))) return true;
+    }
+    return false;
+  }
+
+  return argv.length > 0 && head.test(argv[0]) && matches(rest, argv.slice(1));
+}
+
+/**
+ * Check argv against a list of policy rules
+ */
+export function checkCommand(argv: string[], rules: string[]): CommandDecision {
+  const parsed = rules.filter(r => r.trim()).map(parseRule);
+
+  const deniedBy = parsed.find(r => r.deny && matches(r.patterns, argv));
+  if (deniedBy) {
+    return { allowed: false, reason: `matches deny rule "${deniedBy.source}"` };
+  }
+
+  if (!parsed.some(r => !r.deny && matches(r.patterns, argv))) {
+    return { allowed: false, reason: 'no allow rule matches' };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Human (and model) readable list of what a policy permits
+ */
+export function describePolicy(rules: string[]): string {
+  const allowed = rules.filter(r => r.trim() && !r.trim().startsWith('!'));
+  const denied = rules.filter(r => r.trim().startsWith('!')).map(r => r.trim().slice(1).trim());
+
+  const lines = ['Permitted commands (`...` = any further arguments):', ...allowed.map(r => `- ${r}`)];
+  if (denied.length > 0) {
+    lines.push('Never permitted:', ...denied.map(r => `- ${r}`));
+  }
+  return lines.join('\n');
+}
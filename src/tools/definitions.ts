@@ -1,10 +1,189 @@
 import Anthropic from '@anthropic-ai/sdk';
+import { AgentName, SandboxSettings } from '../types/index.js';
+
+// Read-only git history tools, shared by READ_ONLY_TOOLS and CODE_TOOLS
+const GIT_TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'git_log',
+    description: 'Show recent commits (hash, date, author, subject), optionally only those touching a path. Use to find out when and why code changed; follow up with git_show.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Optional file or directory path relative to repository root. Renames are followed for single files.',
+        },
+        ref: {
+          type: 'string',
+          description: 'Optional branch, tag or commit to start from (default: HEAD)',
+        },
+        max_count: {
+          type: 'number',
+          description: 'Maximum number of commits (default: 20, max: 100)',
+        },
+      },
+    },
+  },
+  {
+    name: 'git_blame',
+    description: 'Show which commit last changed each line of a file. Use a line range; then git_show the commit to see why.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path relative to repository root',
+        },
+        start_line: {
+          type: 'number',
+          description: 'First line (1-based, default: 1)',
+        },
+        end_line: {
+          type: 'number',
+          description: 'Last line (inclusive). At most 400 lines are blamed per call.',
+        },
+        ref: {
+          type: 'string',
+          description: 'Optional commit to blame at (default: the working tree)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'git_diff',
+    description: 'Show a diff. Without refs: uncommitted changes in the working tree (including new files) against HEAD. With from only: from that ref to the working tree. With from and to: between two refs.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Optional base branch, tag or commit (e.g., "main", "HEAD~3")',
+        },
+        to: {
+          type: 'string',
+          description: 'Optional target branch, tag or commit; requires from',
+        },
+        path: {
+          type: 'string',
+          description: 'Optional file or directory path to limit the diff to',
+        },
+        stat_only: {
+          type: 'boolean',
+          description: 'Only list changed files with line counts (default: false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'git_show',
+    description: 'Show a commit: author, date, full message and its changes.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        ref: {
+          type: 'string',
+          description: 'Commit hash, branch or tag',
+        },
+        path: {
+          type: 'string',
+          description: 'Optional path to limit the shown changes to',
+        },
+      },
+      required: ['ref'],
+    },
+  },
+];
+
+// TypeScript-aware navigation (see symbols.ts), shared by READ_ONLY_TOOLS and CODE_TOOLS
+const SYMBOL_TOOLS: Anthropic.Tool[] = [
+  {
+    name: 'find_definition',
+    description: 'Find where a TypeScript/JavaScript symbol is declared, using the compiler rather than text search. Pass the file (and line) where you saw it used for an exact answer; without a file, declarations are looked up by name.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Identifier, or "Container.member" to narrow a by-name lookup (e.g., "useAuth", "UserService.login")',
+        },
+        path: {
+          type: 'string',
+          description: 'Optional file where the symbol appears, relative to repository root',
+        },
+        line: {
+          type: 'number',
+          description: 'Optional 1-based line in that file',
+        },
+      },
+      required: ['symbol'],
+    },
+  },
+  {
+    name: 'find_references',
+    description: 'Find every usage of a TypeScript/JavaScript symbol across the project, grouped by file. Unlike search_code, it follows imports and renames and ignores unrelated symbols with the same name.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Identifier, or "Container.member"',
+        },
+        path: {
+          type: 'string',
+          description: 'Optional file where the symbol appears, relative to repository root',
+        },
+        line: {
+          type: 'number',
+          description: 'Optional 1-based line in that file',
+        },
+      },
+      required: ['symbol'],
+    },
+  },
+  {
+    name: 'list_exports',
+    description: 'List what a module exports, with kinds, function signatures and line numbers. Cheaper than reading the whole file.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File path relative to repository root',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'get_type_of',
+    description: 'Show the inferred type and documentation of a symbol where it appears in a file, as an editor hover would.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        symbol: {
+          type: 'string',
+          description: 'Identifier as it appears in the file',
+        },
+        path: {
+          type: 'string',
+          description: 'File path relative to repository root',
+        },
+        line: {
+          type: 'number',
+          description: 'Optional 1-based line; without it, the first occurrence is used',
+        },
+      },
+      required: ['symbol', 'path'],
+    },
+  },
+];
 
 // READ-ONLY tools for context-gathering agents (Clarifier, Scope, Designer, Planner)
 export const READ_ONLY_TOOLS: Anthropic.Tool[] = [
   {
     name: 'read_file',
-    description: 'Read the contents of a file to understand existing code, configs, or documentation.',
+    description: 'Read a file (or a line range of it) to understand existing code, configs, or documentation. Output is line-numbered, with the total line count; long files are returned a page at a time.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -12,6 +191,14 @@ export const READ_ONLY_TOOLS: Anthropic.Tool[] = [
           type: 'string',
           description: 'File path relative to repository root (e.g., "src/components/Button.tsx", "package.json")',
         },
+        start_line: {
+          type: 'number',
+          description: 'Optional first line to read (1-based, default: 1)',
+        },
+        end_line: {
+          type: 'number',
+          description: 'Optional last line to read (inclusive). At most 500 lines are returned per call.',
+        },
       },
       required: ['path'],
     },
@@ -36,7 +223,7 @@ export const READ_ONLY_TOOLS: Anthropic.Tool[] = [
   },
   {
     name: 'search_code',
-    description: 'Search for text or patterns in the codebase. Use to find relevant files, components, or patterns.',
+    description: 'Search for text or patterns in the codebase. Use to find relevant files, components, or patterns. Results are grouped by file with match counts; .gitignore\'d files are skipped.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -46,19 +233,42 @@ export const READ_ONLY_TOOLS: Anthropic.Tool[] = [
         },
         file_glob: {
           type: 'string',
-          description: 'Optional glob pattern to filter files (e.g., "*.ts", "*.tsx", "*.json")',
+          description: 'Optional glob pattern to filter files (e.g., "*.ts", "*.{ts,tsx}", "src/**/*.json", "!*.test.ts")',
+        },
+        fixed_strings: {
+          type: 'boolean',
+          description: 'Match the pattern as literal text instead of a regex (default: false)',
+        },
+        case_sensitive: {
+          type: 'boolean',
+          description: 'Default: case-insensitive unless the pattern contains uppercase letters',
+        },
+        context_lines: {
+          type: 'number',
+          description: 'Lines of context to show before and after each match (default: 0, max: 10)',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Maximum matches to show (default: 100). Files and counts beyond it are still listed.',
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional files or directories to search in, relative to repository root (e.g., ["src/components"])',
         },
       },
       required: ['pattern'],
     },
   },
+  ...GIT_TOOLS,
+  ...SYMBOL_TOOLS,
 ];
 
 // Full tool definitions for Implementer (includes read + write + commands)
 export const CODE_TOOLS: Anthropic.Tool[] = [
   {
     name: 'read_file',
-    description: 'Read the contents of a file. Use this to understand existing code before making changes.',
+    description: 'Read a file, or a line range of it. Use this to understand existing code before making changes. Output is line-numbered ("12\tcode"); the numbers are not part of the file, so leave them out of apply_diff and apply_patch text. Long files are returned a page at a time.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -66,6 +276,14 @@ export const CODE_TOOLS: Anthropic.Tool[] = [
           type: 'string',
           description: 'File path relative to repository root (e.g., "src/components/Button.tsx")',
         },
+        start_line: {
+          type: 'number',
+          description: 'Optional first line to read (1-based, default: 1)',
+        },
+        end_line: {
+          type: 'number',
+          description: 'Optional last line to read (inclusive). At most 500 lines are returned per call.',
+        },
       },
       required: ['path'],
     },
@@ -108,7 +326,7 @@ export const CODE_TOOLS: Anthropic.Tool[] = [
   },
   {
     name: 'search_code',
-    description: 'Search for text or patterns in the codebase. Returns matching lines with file paths.',
+    description: 'Search for text or patterns in the codebase. Returns matching lines grouped by file, with match counts; .gitignore\'d files are skipped.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -118,7 +336,28 @@ export const CODE_TOOLS: Anthropic.Tool[] = [
         },
         file_glob: {
           type: 'string',
-          description: 'Optional glob pattern to filter files (e.g., "*.ts", "src/**/*.tsx")',
+          description: 'Optional glob pattern to filter files (e.g., "*.ts", "src/**/*.tsx", "!*.test.ts")',
+        },
+        fixed_strings: {
+          type: 'boolean',
+          description: 'Match the pattern as literal text instead of a regex (default: false)',
+        },
+        case_sensitive: {
+          type: 'boolean',
+          description: 'Default: case-insensitive unless the pattern contains uppercase letters',
+        },
+        context_lines: {
+          type: 'number',
+          description: 'Lines of context to show before and after each match (default: 0, max: 10)',
+        },
+        max_results: {
+          type: 'number',
+          description: 'Maximum matches to show (default: 100). Files and counts beyond it are still listed.',
+        },
+        paths: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Optional files or directories to search in, relative to repository root (e.g., ["src/components"])',
         },
       },
       required: ['pattern'],
@@ -126,7 +365,7 @@ export const CODE_TOOLS: Anthropic.Tool[] = [
   },
   {
     name: 'run_command',
-    description: 'Run a shell command. Use for npm scripts, tests, builds. Commands are run from repo root.',
+    description: 'Run a command from the repo root. Use for npm scripts, tests, builds. Runs without a shell: no pipes, redirects, `&&` or env assignments.',
     input_schema: {
       type: 'object' as const,
       properties: {
@@ -160,24 +399,117 @@ export const CODE_TOOLS: Anthropic.Tool[] = [
       required: ['path', 'original', 'replacement'],
     },
   },
+  {
+    name: 'apply_patch',
+    description: 'Apply a unified diff (git diff format) touching one or more files. Hunks are matched by context, tolerating line-number and whitespace drift. All-or-nothing: if any hunk fails, no file is changed and the nearest matching region is reported. Use /dev/null as the old or new path to create or delete a file.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        patch: {
+          type: 'string',
+          description: 'Unified diff with "--- a/path" / "+++ b/path" headers and "@@ -l,n +l,n @@" hunks. Include 2-3 context lines around each change.',
+        },
+      },
+      required: ['patch'],
+    },
+  },
+  {
+    name: 'delete_file',
+    description: 'Delete a file, or a directory with recursive: true. Use to remove dead code left behind by a refactor.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'File or directory path relative to repository root',
+        },
+        recursive: {
+          type: 'boolean',
+          description: 'Required to delete a non-empty directory (default: false)',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  {
+    name: 'move_file',
+    description: 'Move or rename a file or directory. Parent directories of the destination are created. Update imports that reference the old path separately.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        from: {
+          type: 'string',
+          description: 'Current path relative to repository root',
+        },
+        to: {
+          type: 'string',
+          description: 'New path relative to repository root',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'Replace the destination if it already exists (default: false)',
+        },
+      },
+      required: ['from', 'to'],
+    },
+  },
+  {
+    name: 'create_directory',
+    description: 'Create a directory (and any missing parents). write_file creates parents automatically, so this is only needed for empty directories.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        path: {
+          type: 'string',
+          description: 'Directory path relative to repository root',
+        },
+      },
+      required: ['path'],
+    },
+  },
+  ...GIT_TOOLS,
+  ...SYMBOL_TOOLS,
 ];
 
-// Whitelist of allowed commands for safety
+// Default command policy (see command-policy.ts for the rule syntax).
+// Commands run without a shell, so `;`, `|` and `&&` can't smuggle in extra commands.
 export const ALLOWED_COMMANDS = [
-  'npm test',
-  'npm run test',
-  'npm run build',
-  'npm run lint',
-  'npm run type-check',
-  'npm run typecheck',
-  'npm install',
-  'npm ci',
-  'npx tsc --noEmit',
-  'npx eslint',
-  'npx prettier',
-  'claude', // Claude Code CLI
+  '{npm,pnpm,yarn} test ...',
+  '{npm,pnpm,yarn} run {test,build,lint,type-check,typecheck} ...',
+  '{npm,pnpm,yarn} install ...',
+  '{npm,pnpm} ci ...',
+  'npx tsc ...',
+  'npx eslint ...',
+  'npx prettier ...',
+  'claude ...', // Claude Code CLI
+  '!{npm,pnpm,yarn} ... {-g,--global} ...',
+  '!claude ... --dangerously-skip-permissions ...',
 ];
 
+// The tester only runs checks: no installs, no formatters that rewrite files
+export const TESTER_COMMANDS = [
+  '{npm,pnpm,yarn} test ...',
+  '{npm,pnpm,yarn} run {test,build,lint,type-check,typecheck} ...',
+  'npx tsc --noEmit ...',
+  'npx eslint ...',
+  '!npx eslint ... --fix ...',
+];
+
+// Defaults for commands agents run; see sandbox.ts
+export const DEFAULT_SANDBOX: SandboxSettings = {
+  network: true,
+  timeoutSeconds: 300,
+  cpuSeconds: 600,
+  memoryMb: 4096,
+  maxOutputBytes: 5 * 1024 * 1024,
+  env: [],
+};
+
+// Checks don't need the network, so a test file can't phone home
+export const AGENT_SANDBOXES: Partial<Record<AgentName, Partial<SandboxSettings>>> = {
+  tester: { network: false },
+};
+
 // Complexity analysis configuration
 export const COMPLEXITY_THRESHOLDS = {
   fileCountThreshold: 2,      // More than 3 files = complex
@@ -209,5 +541,8 @@ export const PROTECTED_PATHS = [
   'node_modules',
   'package-lock.json',
   '.github/workflows', // Don't let it modify CI
+  '.cherry.yml',       // The agent's own config: authorization, sandbox, command policies
+  '.cherry.yaml',
+  '.cherry.json',
 ];
 
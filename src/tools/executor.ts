@@ -1,15 +1,24 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { exec } from 'child_process';
+import * as os from 'os';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
-import { ALLOWED_COMMANDS, PROTECTED_PATHS } from './definitions.js';
+import { AgentName, SandboxSettings } from '../types/index.js';
+import { ALLOWED_COMMANDS, PROTECTED_PATHS, DEFAULT_SANDBOX, AGENT_SANDBOXES } from './definitions.js';
+import { parseCommand, checkCommand, describePolicy } from './command-policy.js';
+import { runSandboxed, SandboxResult, trustedGitArgs } from './sandbox.js';
+import { parsePatch, applyHunks, formatHunkReports } from './patch.js';
+import { searchFiles, formatSearchResult, SearchOptions } from './search.js';
+import * as symbols from './symbols.js';
 
-const execAsync = promisify(exec);
+// No shell: arguments are passed to the binary as-is
+const execFileAsync = promisify(execFile);
 
 export interface ToolResult {
   success: boolean;
   output: string;
   error?: string;
+  changedPaths?: string[];  // Files written or removed by the tool
 }
 
 export interface ClaudeCodeResult {
@@ -21,29 +30,115 @@ export interface ClaudeCodeResult {
   error?: string;
 }
 
+// Per-repo overrides (see CherryConfig); defaults come from definitions.ts
+export interface ToolExecutorOptions {
+  allowedCommands?: string[];
+  commandPolicies?: Partial<Record<AgentName, string[]>>;
+  protectedPaths?: string[];
+  sandbox?: SandboxSettings;
+  sandboxes?: Partial<Record<AgentName, Partial<SandboxSettings>>>;
+  agent?: AgentName;   // Selects the agent's command policy and sandbox overrides
+}
+
+export interface CheckpointSnapshot {
+  id: string;    // Commit holding the working tree snapshot
+  tree: string;  // Its tree, to detect "nothing changed since the last checkpoint"
+}
+
+// read_file paging: a page stops at whichever limit is hit first
+const MAX_READ_LINES = 500;
+const MAX_READ_CHARS = 50000;
+const MAX_LINE_CHARS = 2000;
+const MAX_READ_BYTES = 10 * 1024 * 1024;
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// git_blame output per call; enough for a large function without flooding the context
+const MAX_BLAME_LINES = 400;
+
+// Checkpoint commits are never merged into a branch, so a fixed identity is fine
+const CHECKPOINT_IDENTITY = {
+  GIT_AUTHOR_NAME: 'cherry-agent',
+  GIT_AUTHOR_EMAIL: 'cherry-agent@users.noreply.github.com',
+  GIT_COMMITTER_NAME: 'cherry-agent',
+  GIT_COMMITTER_EMAIL: 'cherry-agent@users.noreply.github.com',
+};
+
 export class ToolExecutor {
   private repoPath: string;
+  private agent?: AgentName;
+  private commandPolicy: string[];
+  private protectedPaths: string[];
+  private sandbox: SandboxSettings;
   private maxOutputLength = 100000; // Increased limit to see full files (was 10000)
 
-  constructor(repoPath: string) {
+  constructor(repoPath: string, options: ToolExecutorOptions = {}) {
     this.repoPath = repoPath;
+    this.agent = options.agent;
+    this.commandPolicy =
+      (options.agent && options.commandPolicies?.[options.agent]) || options.allowedCommands || ALLOWED_COMMANDS;
+    this.protectedPaths = options.protectedPaths || PROTECTED_PATHS;
+    const agentSandboxes = options.sandboxes || AGENT_SANDBOXES;
+    this.sandbox = {
+      ...(options.sandbox || DEFAULT_SANDBOX),
+      ...(options.agent ? agentSandboxes[options.agent] : {}),
+    };
   }
 
   async execute(toolName: string, input: Record<string, unknown>): Promise<ToolResult> {
     try {
       switch (toolName) {
         case 'read_file':
-          return await this.readFile(input.path as string);
+          return await this.readFile(input.path as string, input.start_line as number, input.end_line as number);
         case 'write_file':
           return await this.writeFile(input.path as string, input.content as string);
         case 'list_directory':
           return await this.listDirectory(input.path as string, input.recursive as boolean);
         case 'search_code':
-          return await this.searchCode(input.pattern as string, input.file_glob as string);
+          return await this.searchCode(input.pattern as string, {
+            fixedStrings: input.fixed_strings as boolean,
+            caseSensitive: input.case_sensitive as boolean | undefined,
+            contextLines: input.context_lines as number,
+            maxResults: input.max_results as number,
+            paths: input.paths as string[],
+            globs: input.file_glob ? [input.file_glob as string] : undefined,
+          });
         case 'run_command':
           return await this.runCommand(input.command as string);
         case 'apply_diff':
           return await this.applyDiff(input.path as string, input.original as string, input.replacement as string);
+        case 'apply_patch':
+          return await this.applyPatch(input.patch as string);
+        case 'delete_file':
+          return await this.deleteFile(input.path as string, input.recursive as boolean);
+        case 'move_file':
+          return await this.moveFile(input.from as string, input.to as string, input.overwrite as boolean);
+        case 'create_directory':
+          return await this.createDirectory(input.path as string);
+        case 'git_log':
+          return await this.gitLog(input.path as string, input.ref as string, input.max_count as number);
+        case 'git_blame':
+          return await this.gitBlame(
+            input.path as string, input.start_line as number, input.end_line as number, input.ref as string
+          );
+        case 'git_diff':
+          return await this.gitDiff(
+            input.from as string, input.to as string, input.path as string, input.stat_only as boolean
+          );
+        case 'git_show':
+          return await this.gitShow(input.ref as string, input.path as string);
+        case 'find_definition':
+          return this.findDefinition(input.symbol as string, input.path as string, input.line as number);
+        case 'find_references':
+          return this.findReferences(input.symbol as string, input.path as string, input.line as number);
+        case 'list_exports':
+          return this.listExports(input.path as string);
+        case 'get_type_of':
+          return this.getTypeOf(input.symbol as string, input.path as string, input.line as number);
         default:
           return { success: false, output: '', error: `Unknown tool: ${toolName}` };
       }
@@ -73,7 +168,7 @@ export class ToolExecutor {
   }
 
   private isProtectedPath(relativePath: string): boolean {
-    return PROTECTED_PATHS.some(
+    return this.protectedPaths.some(
       (protected_) =>
         relativePath === protected_ ||
         relativePath.startsWith(protected_ + '/') ||
@@ -81,6 +176,23 @@ export class ToolExecutor {
     );
   }
 
+  /**
+   * Repo-relative form of a path, so "./.env" and "src/../.env" are checked like ".env"
+   */
+  private normalizePath(relativePath: string): string {
+    return path.relative(path.resolve(this.repoPath), this.resolvePath(relativePath)).split(path.sep).join('/');
+  }
+
+  /**
+   * A directory is protected if it is, or contains, a protected path
+   */
+  private touchesProtectedPath(relativePath: string): boolean {
+    const normalized = this.normalizePath(relativePath);
+    if (normalized === '') return true;  // The repo root itself
+    return this.isProtectedPath(normalized) ||
+      this.protectedPaths.some(p => p.startsWith(normalized + '/'));
+  }
+
   private truncateOutput(output: string): string {
     if (output.length > this.maxOutputLength) {
       return output.slice(0, this.maxOutputLength) + '\n... (output truncated)';
@@ -88,18 +200,66 @@ export class ToolExecutor {
     return output;
   }
 
-  async readFile(filePath: string): Promise<ToolResult> {
+  /**
+   * Line-numbered read of a file or a range of it. Without a range, long files come back
+   * one page at a time with a note on how to continue; binary and huge files are refused.
+   */
+  async readFile(filePath: string, startLine?: number, endLine?: number): Promise<ToolResult> {
     const fullPath = this.resolvePath(filePath);
-    const content = await fs.readFile(fullPath, 'utf-8');
+    const stat = await fs.stat(fullPath);
+    if (stat.isDirectory()) {
+      return { success: false, output: '', error: `${filePath} is a directory; use list_directory` };
+    }
+    if (stat.size > MAX_READ_BYTES) {
+      return {
+        success: false,
+        output: '',
+        error: `${filePath} is ${formatBytes(stat.size)}, too large to read. Use search_code to find the relevant part.`,
+      };
+    }
+
+    const buffer = await fs.readFile(fullPath);
+    if (buffer.subarray(0, 8000).includes(0)) {
+      return { success: false, output: '', error: `${filePath} is a binary file (${formatBytes(stat.size)})` };
+    }
+
+    const lines = buffer.toString('utf-8').replace(/\r?\n$/, '').split(/\r?\n/);
+    const total = buffer.length === 0 ? 0 : lines.length;
+    const start = Math.max(1, Math.floor(startLine || 1));
+    if (total > 0 && start > total) {
+      return { success: false, output: '', error: `start_line ${start} is past the end of ${filePath} (${total} lines)` };
+    }
+    if (endLine && endLine < start) {
+      return { success: false, output: '', error: `end_line ${endLine} is before start_line ${start}` };
+    }
+
+    // A page ends at end_line, MAX_READ_LINES or MAX_READ_CHARS, whichever comes first
+    const requestedEnd = Math.min(endLine ? Math.floor(endLine) : total, total);
+    const numbered: string[] = [];
+    let chars = 0;
+    let end = start - 1;
+    while (end < requestedEnd && end - start + 1 < MAX_READ_LINES && chars < MAX_READ_CHARS) {
+      const text = lines[end];
+      const clipped = text.length > MAX_LINE_CHARS ? `${text.slice(0, MAX_LINE_CHARS)}… (line truncated)` : text;
+      numbered.push(`${String(end + 1).padStart(String(requestedEnd).length)}\t${clipped}`);
+      chars += clipped.length + 1;
+      end++;
+    }
+
+    const header = `${filePath} (${total} lines, ${formatBytes(stat.size)})`;
+    const footer = end < total
+      ? `\n... showing lines ${start}-${end} of ${total}. Continue with start_line=${end + 1}.`
+      : '';
+
     return {
       success: true,
-      output: this.truncateOutput(content),
+      output: [header, ...numbered].join('\n') + footer,
     };
   }
 
   async writeFile(filePath: string, content: string): Promise<ToolResult> {
-    if (this.isProtectedPath(filePath)) {
-      return { success: false, output: '', error: `Cannot modify protected path: ${filePath}` };
+    if (this.touchesProtectedPath(filePath)) {
+      return { success: false, output: '', error: `Cannot modify protected path: ${this.normalizePath(filePath) || '.'}` };
     }
 
     const fullPath = this.resolvePath(filePath);
@@ -111,6 +271,7 @@ export class ToolExecutor {
     return {
       success: true,
       output: `Successfully wrote ${content.length} characters to ${filePath}`,
+      changedPaths: [this.normalizePath(filePath)],
     };
   }
 
@@ -163,71 +324,64 @@ export class ToolExecutor {
     return results;
   }
 
-  async searchCode(pattern: string, fileGlob?: string): Promise<ToolResult> {
-    // Use grep for searching (available in GitHub Actions runner)
-    let command = `grep -rn "${pattern.replace(/"/g, '\\"')}" --include="*.ts" --include="*.tsx" --include="*.js" --include="*.jsx" --include="*.json" --include="*.css" --include="*.html"`;
-    
-    if (fileGlob) {
-      command = `grep -rn "${pattern.replace(/"/g, '\\"')}" --include="${fileGlob}"`;
-    }
-
-    try {
-      const { stdout } = await execAsync(command, {
-        cwd: this.repoPath,
-        maxBuffer: 1024 * 1024, // 1MB buffer
-      });
-      return {
-        success: true,
-        output: this.truncateOutput(stdout),
-      };
-    } catch (error) {
-      // grep returns exit code 1 when no matches found
-      if ((error as { code?: number }).code === 1) {
-        return { success: true, output: 'No matches found' };
+  async searchCode(pattern: string, options: SearchOptions = {}): Promise<ToolResult> {
+    const paths: string[] = [];
+    for (const searchPath of options.paths || []) {
+      const normalized = this.normalizePath(searchPath) || '.';
+      if (!await this.pathExists(normalized)) {
+        return { success: false, output: '', error: `Path not found: ${searchPath}` };
       }
-      throw error;
+      paths.push(normalized);
     }
+
+    const result = await searchFiles(path.resolve(this.repoPath), pattern, { ...options, paths });
+    return {
+      success: true,
+      output: this.truncateOutput(formatSearchResult(result)),
+    };
   }
 
   async runCommand(command: string): Promise<ToolResult> {
-    // Security: Only allow whitelisted commands
-    const isAllowed = ALLOWED_COMMANDS.some(
-      (allowed) => command === allowed || command.startsWith(allowed + ' ')
-    );
+    let argv: string[];
+    try {
+      argv = parseCommand(command);
+    } catch (error) {
+      return { success: false, output: '', error: `${(error as Error).message}\n\n${describePolicy(this.commandPolicy)}` };
+    }
 
-    if (!isAllowed) {
+    // Security: Only run commands the policy permits
+    const decision = checkCommand(argv, this.commandPolicy);
+    if (!decision.allowed) {
+      console.warn(`[Executor] Denied${this.agent ? ` for ${this.agent}` : ''}: ${command} (${decision.reason})`);
       return {
         success: false,
         output: '',
-        error: `Command not allowed. Allowed commands: ${ALLOWED_COMMANDS.join(', ')}`,
+        error: `Command not allowed${this.agent ? ` for ${this.agent}` : ''}: ${command} (${decision.reason})\n\n${describePolicy(this.commandPolicy)}`,
       };
     }
 
-    try {
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: this.repoPath,
-        maxBuffer: 1024 * 1024 * 5, // 5MB buffer for test output
-        timeout: 300000, // 5 minute timeout
-      });
+    const result = await runSandboxed(argv, { cwd: this.repoPath, settings: this.sandbox });
+    const output = this.sandboxOutput(result, `${result.stdout}${result.stderr ? `\nSTDERR:\n${result.stderr}` : ''}`);
 
-      const output = stdout + (stderr ? `\nSTDERR:\n${stderr}` : '');
-      return {
-        success: true,
-        output: this.truncateOutput(output),
-      };
-    } catch (error) {
-      const execError = error as { stdout?: string; stderr?: string; message: string };
-      return {
-        success: false,
-        output: this.truncateOutput(execError.stdout || ''),
-        error: execError.stderr || execError.message,
-      };
+    if (result.exitCode === 0 && !result.error) {
+      return { success: true, output };
     }
+
+    return {
+      success: false,
+      output: this.sandboxOutput(result, result.stdout),
+      error: result.error || result.stderr || `Exited with code ${result.exitCode}`,
+    };
+  }
+
+  private sandboxOutput(result: SandboxResult, output: string): string {
+    const note = result.truncated ? `\n... (output capped at ${this.sandbox.maxOutputBytes} bytes)` : '';
+    return this.truncateOutput(output) + note;
   }
 
   async applyDiff(filePath: string, original: string, replacement: string): Promise<ToolResult> {
-    if (this.isProtectedPath(filePath)) {
-      return { success: false, output: '', error: `Cannot modify protected path: ${filePath}` };
+    if (this.touchesProtectedPath(filePath)) {
+      return { success: false, output: '', error: `Cannot modify protected path: ${this.normalizePath(filePath) || '.'}` };
     }
 
     const fullPath = this.resolvePath(filePath);
@@ -248,9 +402,201 @@ export class ToolExecutor {
     return {
       success: true,
       output: `Successfully applied diff to ${filePath}`,
+      changedPaths: [this.normalizePath(filePath)],
+    };
+  }
+
+  /**
+   * Apply a multi-file unified diff. Every hunk is matched in memory first, so
+   * either all files change or none do.
+   */
+  async applyPatch(patch: string): Promise<ToolResult> {
+    const filePatches = parsePatch(patch);
+
+    // Planned changes by path; null = delete
+    const changes = new Map<string, string | null>();
+    const reports: string[] = [];
+    let failedHunks = 0;
+
+    for (const filePatch of filePatches) {
+      // Repo-relative, so "./.env" and "src/../.env" are checked and keyed like ".env"
+      const oldPath = filePatch.oldPath && this.normalizePath(filePatch.oldPath);
+      const newPath = filePatch.newPath && this.normalizePath(filePatch.newPath);
+      const target = (newPath ?? oldPath)!;
+
+      for (const p of [oldPath, newPath]) {
+        if (p !== null && this.touchesProtectedPath(p)) {
+          return { success: false, output: '', error: `Cannot modify protected path: ${p || '.'}` };
+        }
+      }
+
+      let original = '';
+      if (oldPath) {
+        const planned = changes.get(oldPath);
+        if (planned === null) {
+          return { success: false, output: '', error: `${oldPath} is deleted earlier in the same patch` };
+        }
+        try {
+          original = planned ?? await fs.readFile(this.resolvePath(oldPath), 'utf-8');
+        } catch {
+          return { success: false, output: '', error: `File not found: ${oldPath}. Use "--- /dev/null" to create a new file.` };
+        }
+      } else if (await this.pathExists(newPath!)) {
+        return { success: false, output: '', error: `${newPath} already exists. Use "--- a/${newPath}" to modify it.` };
+      }
+
+      const result = applyHunks(original, filePatch);
+      failedHunks += result.reports.filter(r => !r.applied).length;
+      if (result.reports.length > 0) reports.push(formatHunkReports(target, result.reports));
+
+      if (oldPath && oldPath !== newPath) changes.set(oldPath, null);
+      if (newPath) changes.set(newPath, result.content);
+    }
+
+    if (failedHunks > 0) {
+      return {
+        success: false,
+        output: reports.join('\n'),
+        error: `Patch not applied: ${failedHunks} hunk(s) failed, no files were changed. Re-read the files and regenerate the failed hunks.`,
+      };
+    }
+
+    // Restore what was already written if a later write fails
+    const backups = new Map<string, string | null>();
+    try {
+      for (const [filePath, content] of changes) {
+        const fullPath = this.resolvePath(filePath);
+        backups.set(fullPath, await fs.readFile(fullPath, 'utf-8').catch(() => null));
+        if (content === null) {
+          await fs.rm(fullPath, { force: true });
+        } else {
+          await fs.mkdir(path.dirname(fullPath), { recursive: true });
+          await fs.writeFile(fullPath, content, 'utf-8');
+        }
+      }
+    } catch (error) {
+      for (const [fullPath, content] of backups) {
+        if (content === null) await fs.rm(fullPath, { force: true });
+        else await fs.writeFile(fullPath, content, 'utf-8');
+      }
+      throw error;
+    }
+
+    const summary = [...changes].map(([p, content]) => `${content === null ? 'deleted' : 'updated'} ${p}`).join(', ');
+    return {
+      success: true,
+      output: `${reports.join('\n')}${reports.length > 0 ? '\n\n' : ''}Patch applied: ${summary}`,
+      changedPaths: [...changes.keys()],
+    };
+  }
+
+  async deleteFile(filePath: string, recursive = false): Promise<ToolResult> {
+    if (this.touchesProtectedPath(filePath)) {
+      return { success: false, output: '', error: `Cannot delete protected path: ${filePath}` };
+    }
+
+    const fullPath = this.resolvePath(filePath);
+    const stat = await fs.stat(fullPath).catch(() => null);
+    if (!stat) {
+      return { success: false, output: '', error: `Not found: ${filePath}` };
+    }
+
+    if (!stat.isDirectory()) {
+      await fs.rm(fullPath);
+      return { success: true, output: `Deleted ${filePath}`, changedPaths: [this.normalizePath(filePath)] };
+    }
+
+    // Track every file inside, so summaries list what was removed
+    const files = (await this.listFilesRecursive(fullPath)).map(f => this.normalizePath(path.join(filePath, f)));
+    if (files.length > 0 && !recursive) {
+      return {
+        success: false,
+        output: '',
+        error: `${filePath} is a directory with ${files.length} file(s). Pass recursive: true to delete it.`,
+      };
+    }
+
+    await fs.rm(fullPath, { recursive: true });
+    return {
+      success: true,
+      output: `Deleted directory ${filePath}${files.length > 0 ? ` (${files.length} file(s))` : ''}`,
+      changedPaths: files,
+    };
+  }
+
+  async moveFile(from: string, to: string, overwrite = false): Promise<ToolResult> {
+    for (const p of [from, to]) {
+      if (this.touchesProtectedPath(p)) {
+        return { success: false, output: '', error: `Cannot move protected path: ${p}` };
+      }
+    }
+
+    const fromPath = this.resolvePath(from);
+    const toPath = this.resolvePath(to);
+    const stat = await fs.stat(fromPath).catch(() => null);
+    if (!stat) {
+      return { success: false, output: '', error: `Not found: ${from}` };
+    }
+    if (toPath === fromPath || toPath.startsWith(fromPath + path.sep)) {
+      return { success: false, output: '', error: `Cannot move ${from} into itself` };
+    }
+    if (!overwrite && await this.pathExists(to)) {
+      return { success: false, output: '', error: `${to} already exists. Pass overwrite: true to replace it.` };
+    }
+
+    const files = stat.isDirectory() ? await this.listFilesRecursive(fromPath) : [''];
+
+    await fs.mkdir(path.dirname(toPath), { recursive: true });
+    if (overwrite) await fs.rm(toPath, { recursive: true, force: true });
+    await fs.rename(fromPath, toPath);
+
+    // Both sides count as changed: the old paths are deletions, the new ones additions
+    const changedPaths = files.flatMap(f => [
+      this.normalizePath(path.join(from, f)),
+      this.normalizePath(path.join(to, f)),
+    ]);
+    return { success: true, output: `Moved ${from} to ${to}`, changedPaths };
+  }
+
+  async createDirectory(dirPath: string): Promise<ToolResult> {
+    if (this.isProtectedPath(this.normalizePath(dirPath))) {
+      return { success: false, output: '', error: `Cannot create protected path: ${dirPath}` };
+    }
+
+    const existed = await this.pathExists(dirPath);
+    await fs.mkdir(this.resolvePath(dirPath), { recursive: true });
+    return {
+      success: true,
+      output: existed ? `${dirPath} already exists` : `Created directory ${dirPath}`,
+      changedPaths: existed ? [] : [`${this.normalizePath(dirPath)}/`],
     };
   }
 
+  /**
+   * Every file below a directory, relative to it (including hidden files, unlike listRecursive)
+   */
+  private async listFilesRecursive(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    const files: string[] = [];
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFilesRecursive(path.join(dir, entry.name))).map(f => path.join(entry.name, f)));
+      } else {
+        files.push(entry.name);
+      }
+    }
+    return files;
+  }
+
+  private async pathExists(relativePath: string): Promise<boolean> {
+    try {
+      await fs.access(this.resolvePath(relativePath));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Run Claude Code CLI to generate a plan (no changes made)
    * Returns a detailed plan of what Claude Code would do
@@ -282,7 +628,7 @@ DO NOT execute any changes. Only provide the plan.`;
     try {
       // Check if Claude Code CLI is available
       try {
-        await execAsync('which claude || command -v claude', { cwd: this.repoPath });
+        await execFileAsync('which', ['claude'], { cwd: this.repoPath });
       } catch {
         return {
           success: false,
@@ -291,20 +637,9 @@ DO NOT execute any changes. Only provide the plan.`;
         };
       }
 
-      const escapedPrompt = planPrompt.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-      const command = `claude --print "${escapedPrompt}"`;
-
       console.log('[ClaudeCode] Generating plan...');
       
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: this.repoPath,
-        maxBuffer: 1024 * 1024 * 10, // 10MB
-        timeout: 300000, // 5 minute timeout for planning
-        env: {
-          ...process.env,
-          ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-        },
-      });
+      const { stdout, stderr } = await this.runClaudeCode(['--print', planPrompt], 300); // 5 minute timeout for planning
 
       const output = stdout + (stderr ? `\n${stderr}` : '');
       
@@ -337,7 +672,7 @@ DO NOT execute any changes. Only provide the plan.`;
     try {
       // Check if Claude Code CLI is available
       try {
-        await execAsync('which claude || command -v claude', { cwd: this.repoPath });
+        await execFileAsync('which', ['claude'], { cwd: this.repoPath });
       } catch {
         return {
           success: false,
@@ -350,22 +685,13 @@ DO NOT execute any changes. Only provide the plan.`;
         ? `Execute this approved plan:\n\n${approvedPlan}\n\nOriginal task: ${task}`
         : task;
 
-      const escapedPrompt = executePrompt.replace(/"/g, '\\"').replace(/\n/g, '\\n');
-      
-      // --print outputs to stdout, --dangerously-skip-permissions allows autonomous changes
-      const command = `claude --print --dangerously-skip-permissions "${escapedPrompt}"`;
-
       console.log('[ClaudeCode] Executing task...');
       
-      const { stdout, stderr } = await execAsync(command, {
-        cwd: this.repoPath,
-        maxBuffer: 1024 * 1024 * 10, // 10MB
-        timeout: 600000, // 10 minute timeout for execution
-        env: {
-          ...process.env,
-          ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
-        },
-      });
+      // --print outputs to stdout, --dangerously-skip-permissions allows autonomous changes
+      const { stdout, stderr } = await this.runClaudeCode(
+        ['--print', '--dangerously-skip-permissions', executePrompt],
+        600 // 10 minute timeout for execution
+      );
 
       const output = stdout + (stderr ? `\n${stderr}` : '');
       
@@ -389,12 +715,260 @@ DO NOT execute any changes. Only provide the plan.`;
     }
   }
 
+  private async git(args: string[], env: Record<string, string> = {}): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: this.repoPath,
+      env: { ...process.env, ...env },
+      maxBuffer: 1024 * 1024 * 10,
+    });
+    return stdout;
+  }
+
+  /**
+   * Snapshot the working tree (tracked and untracked, minus .gitignore'd files) as a
+   * dangling commit under refs/cherry/checkpoints/. HEAD, the index and the files are untouched.
+   * With push, the ref is also pushed to origin so later workflow runs (fresh checkouts) can restore it.
+   */
+  async createCheckpoint(label: string, push = false): Promise<CheckpointSnapshot> {
+    const { head, tree } = await this.snapshotWorkingTree();
+
+    const id = (await this.git(
+      ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', `cherry checkpoint: ${label}`],
+      CHECKPOINT_IDENTITY
+    )).trim();
+    await this.git(['update-ref', `refs/cherry/checkpoints/${id}`, id]);
+
+    if (push) {
+      await this.git([...trustedGitArgs(process.env.GITHUB_TOKEN), 'push', '--quiet', 'origin', `refs/cherry/checkpoints/${id}`]).catch(error => {
+        console.warn(`[Checkpoints] Could not push ${id.slice(0, 7)}: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+
+    return { id, tree };
+  }
+
+  /**
+   * Delete checkpoint refs, and with remote also their pushed copies. Failures are logged:
+   * a leftover ref only costs space.
+   */
+  async deleteCheckpoints(ids: string[], remote = false): Promise<void> {
+    if (ids.length === 0) return;
+    const refs = ids.map(id => `refs/cherry/checkpoints/${id}`);
+
+    for (const ref of refs) {
+      await this.git(['update-ref', '-d', ref]).catch(error => {
+        console.warn(`[Checkpoints] Could not delete ${ref}: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+    if (remote) {
+      await this.git([...trustedGitArgs(process.env.GITHUB_TOKEN), 'push', '--quiet', 'origin', '--delete', ...refs]).catch(error => {
+        console.warn(`[Checkpoints] Could not delete pushed checkpoints: ${error instanceof Error ? error.message : error}`);
+      });
+    }
+  }
+
+  /**
+   * Write the working tree (tracked and untracked, minus .gitignore'd files) to a git tree
+   * object through a throwaway index, leaving the real index alone
+   */
+  private async snapshotWorkingTree(): Promise<{ head: string; tree: string }> {
+    const indexFile = path.join(os.tmpdir(), `cherry-index-${process.pid}-${Date.now()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      const head = (await this.git(['rev-parse', '--verify', '-q', 'HEAD']).catch(() => '')).trim();
+      if (head) await this.git(['read-tree', head], env);
+      await this.git(['add', '-A', '--', '.'], env);
+      const tree = (await this.git(['write-tree'], env)).trim();
+      return { head, tree };
+    } finally {
+      await fs.rm(indexFile, { force: true });
+    }
+  }
+
+  /**
+   * Restore the working tree to a checkpoint: changed and deleted files come back,
+   * files created since are removed. The current state is checkpointed first, so a
+   * rollback can itself be rolled back. Protected paths are never touched.
+   */
+  async rollbackToCheckpoint(id: string, push = false): Promise<ToolResult & { backup?: CheckpointSnapshot }> {
+    const resolve = async () => (await this.git(['rev-parse', '--verify', '-q', `${id}^{commit}`]).catch(() => '')).trim();
+    let target = await resolve();
+    if (!target) {
+      // Taken in an earlier workflow run: only on the remote
+      const ref = `refs/cherry/checkpoints/${id}`;
+      await this.git([...trustedGitArgs(process.env.GITHUB_TOKEN), 'fetch', '--quiet', 'origin', `${ref}:${ref}`]).catch(() => '');
+      target = await resolve();
+    }
+    if (!target) {
+      return { success: false, output: '', error: `Unknown checkpoint: ${id}` };
+    }
+
+    const backup = await this.createCheckpoint(`before rollback to ${target.slice(0, 7)}`, push);
+    const diff = await this.git(['diff-tree', '-r', '-z', '--name-status', '--no-renames', target, backup.id]);
+
+    // -z output: status\0path\0status\0path\0...
+    const entries = diff.split('\0').filter(Boolean);
+    const toRestore: string[] = [];
+    const toRemove: string[] = [];
+    for (let i = 0; i + 1 < entries.length; i += 2) {
+      const [status, filePath] = [entries[i], entries[i + 1]];
+      if (this.isProtectedPath(filePath)) continue;
+      (status === 'A' ? toRemove : toRestore).push(filePath);
+    }
+
+    if (toRestore.length > 0) {
+      await this.git(['restore', `--source=${target}`, '--worktree', '--', ...toRestore]);
+    }
+    for (const filePath of toRemove) {
+      await fs.rm(this.resolvePath(filePath), { force: true });
+    }
+
+    return {
+      success: true,
+      output: toRestore.length + toRemove.length === 0
+        ? `Working tree already matches checkpoint ${target.slice(0, 7)}`
+        : `Rolled back to ${target.slice(0, 7)}: restored ${toRestore.length} file(s), removed ${toRemove.length} file(s)`,
+      changedPaths: [...toRestore, ...toRemove],
+      backup,
+    };
+  }
+
+  /**
+   * Refs come from the model and end up in git argv: allow branch/tag/hash syntax
+   * (HEAD~2, main^, v1.0, origin/main, HEAD@{1}) but nothing git could read as an option
+   */
+  private validateRef(ref: string): string {
+    const trimmed = ref.trim();
+    if (!/^[\w][\w./~^@{}-]*$/.test(trimmed) || trimmed.includes('..')) {
+      throw new Error(`Invalid git ref: "${ref}". Use a branch, tag or commit hash (ranges: use from/to).`);
+    }
+    return trimmed;
+  }
+
+  /**
+   * Run a read-only git command for a tool, reporting git's own error message on failure
+   */
+  private async gitTool(args: string[], emptyMessage: string, env: Record<string, string> = {}): Promise<ToolResult> {
+    try {
+      const stdout = await this.git(args, env);
+      return { success: true, output: stdout.trim() ? this.truncateOutput(stdout) : emptyMessage };
+    } catch (error) {
+      const gitError = error as { stderr?: string; message: string };
+      return { success: false, output: '', error: (gitError.stderr || gitError.message).trim() };
+    }
+  }
+
+  async gitLog(filePath?: string, ref?: string, maxCount = 20): Promise<ToolResult> {
+    const count = Math.min(Math.max(1, Math.floor(maxCount) || 20), 100);
+    const args = ['log', `--max-count=${count}`, '--date=short', '--format=%h %ad %an: %s'];
+
+    if (ref) args.push(this.validateRef(ref));
+    if (filePath) {
+      const normalized = this.normalizePath(filePath);
+      const stat = await fs.stat(this.resolvePath(normalized)).catch(() => null);
+      if (stat?.isFile()) args.splice(1, 0, '--follow');
+      args.push('--', normalized || '.');
+    }
+
+    return this.gitTool(args, filePath ? `No commits touch ${filePath}` : 'No commits yet');
+  }
+
+  async gitBlame(filePath: string, startLine = 1, endLine?: number, ref?: string): Promise<ToolResult> {
+    const start = Math.max(1, Math.floor(startLine) || 1);
+    const end = Math.min(endLine ? Math.floor(endLine) : start + MAX_BLAME_LINES - 1, start + MAX_BLAME_LINES - 1);
+    if (end < start) {
+      return { success: false, output: '', error: `end_line (${endLine}) is before start_line (${start})` };
+    }
+
+    const args = ['blame', '--date=short', '-L', `${start},${end}`];
+    if (ref) args.push(this.validateRef(ref));
+    args.push('--', this.normalizePath(filePath));
+
+    return this.gitTool(args, `No lines to blame in ${filePath}`);
+  }
+
+  /**
+   * Without refs (or with only `from`) the working tree side includes untracked files,
+   * so the implementer sees the new files it created too
+   */
+  async gitDiff(from?: string, to?: string, filePath?: string, statOnly = false): Promise<ToolResult> {
+    if (to && !from) {
+      return { success: false, output: '', error: '"to" requires "from"' };
+    }
+
+    const args = ['diff', statOnly ? '--stat' : '--patch'];
+    if (to) {
+      args.push(this.validateRef(from!), this.validateRef(to));
+    } else {
+      const { head, tree } = await this.snapshotWorkingTree();
+      const base = from ? this.validateRef(from) : head;
+      if (!base) return { success: false, output: '', error: 'No commits yet; pass refs to compare' };
+      args.push(base, tree);
+    }
+    if (filePath) args.push('--', this.normalizePath(filePath) || '.');
+
+    return this.gitTool(args, 'No differences');
+  }
+
+  async gitShow(ref: string, filePath?: string): Promise<ToolResult> {
+    const args = ['show', '--stat', '--patch', '--date=short', '--format=fuller', this.validateRef(ref)];
+    if (filePath) args.push('--', this.normalizePath(filePath) || '.');
+    return this.gitTool(args, `Nothing to show for ${ref}`);
+  }
+
+  private symbolQuery(symbol: string, filePath?: string, line?: number): symbols.SymbolQuery {
+    if (!symbol) throw new Error('symbol is required');
+    return { symbol, file: filePath ? this.resolvePath(filePath) : undefined, line: line || undefined };
+  }
+
+  findDefinition(symbol: string, filePath?: string, line?: number): ToolResult {
+    const output = symbols.findDefinition(path.resolve(this.repoPath), this.symbolQuery(symbol, filePath, line));
+    return { success: true, output: this.truncateOutput(output) };
+  }
+
+  findReferences(symbol: string, filePath?: string, line?: number): ToolResult {
+    const output = symbols.findReferences(path.resolve(this.repoPath), this.symbolQuery(symbol, filePath, line));
+    return { success: true, output: this.truncateOutput(output) };
+  }
+
+  listExports(filePath: string): ToolResult {
+    const output = symbols.listExports(path.resolve(this.repoPath), this.resolvePath(filePath));
+    return { success: true, output: this.truncateOutput(output) };
+  }
+
+  getTypeOf(symbol: string, filePath: string, line?: number): ToolResult {
+    if (!filePath) throw new Error('path is required');
+    const output = symbols.getTypeOf(path.resolve(this.repoPath), { ...this.symbolQuery(symbol, filePath, line), file: this.resolvePath(filePath) });
+    return { success: true, output: this.truncateOutput(output) };
+  }
+
+  /**
+   * Run the Claude Code CLI in the agent's sandbox. It needs the network and its API key,
+   * but no other secrets. Throws with stdout/stderr attached on failure, like execFile.
+   */
+  private async runClaudeCode(args: string[], timeoutSeconds: number): Promise<{ stdout: string; stderr: string }> {
+    const result = await runSandboxed(['claude', ...args], {
+      cwd: this.repoPath,
+      settings: { ...this.sandbox, network: true, timeoutSeconds, maxOutputBytes: 10 * 1024 * 1024 },
+      extraEnv: { ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY },
+    });
+
+    if (result.exitCode !== 0 || result.error) {
+      throw Object.assign(new Error(result.error || `claude exited with code ${result.exitCode}`), {
+        stdout: result.stdout,
+        stderr: result.stderr,
+      });
+    }
+    return { stdout: result.stdout, stderr: result.stderr };
+  }
+
   /**
    * Get list of modified files using git status
    */
   private async getModifiedFiles(): Promise<string[]> {
     try {
-      const { stdout } = await execAsync('git status --porcelain', { cwd: this.repoPath });
+      const { stdout } = await execFileAsync('git', ['status', '--porcelain'], { cwd: this.repoPath });
       return stdout
         .split('\n')
         .filter(line => line.trim())
@@ -1,4 +1,10 @@
-export { CODE_TOOLS, ALLOWED_COMMANDS, PROTECTED_PATHS } from './definitions.js';
+export { CODE_TOOLS, ALLOWED_COMMANDS, TESTER_COMMANDS, PROTECTED_PATHS, DEFAULT_SANDBOX } from './definitions.js';
+export { runSandboxed } from './sandbox.js';
+export type { SandboxResult } from './sandbox.js';
+export { parseCommand, checkCommand, describePolicy } from './command-policy.js';
+export type { CommandDecision } from './command-policy.js';
 export { ToolExecutor } from './executor.js';
-export type { ToolResult } from './executor.js';
+export type { ToolResult, ToolExecutorOptions } from './executor.js';
+export { searchFiles, formatSearchResult } from './search.js';
+export type { SearchOptions, SearchResult } from './search.js';
 
@@ -0,0 +1,142 @@
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { applyHunks, formatHunkReports, parsePatch } from './patch.js';
+import { ToolExecutor } from './executor.js';
+
+const FILE = ['one', 'two', 'three', 'four', 'five', 'six', 'seven'].join('\n') + '\n';
+
+function apply(original: string, patch: string) {
+  const [filePatch] = parsePatch(patch);
+  return applyHunks(original, filePatch);
+}
+
+describe('parsePatch', () => {
+  it('reads paths, dropping a/ b/ prefixes and timestamps', () => {
+    const [filePatch] = parsePatch('--- a/src/x.ts\t2024-01-01\n+++ b/src/x.ts\n@@ -1 +1 @@\n-a\n+b\n');
+    assert.equal(filePatch.oldPath, 'src/x.ts');
+    assert.equal(filePatch.newPath, 'src/x.ts');
+    assert.deepEqual(filePatch.hunks[0].lines, [{ type: '-', text: 'a' }, { type: '+', text: 'b' }]);
+  });
+
+  it('marks created and deleted files with a null path', () => {
+    const [created, deleted] = parsePatch('--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1 @@\n+x\n--- a/old.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-x\n');
+    assert.equal(created.oldPath, null);
+    assert.equal(created.newPath, 'new.ts');
+    assert.equal(deleted.oldPath, 'old.ts');
+    assert.equal(deleted.newPath, null);
+  });
+
+  it('accepts a rename without hunks but not an edit without hunks', () => {
+    const [renamed] = parsePatch('--- a/old.ts\n+++ b/new.ts\n');
+    assert.deepEqual(renamed, { oldPath: 'old.ts', newPath: 'new.ts', hunks: [], noNewlineAtEnd: false });
+    assert.throws(() => parsePatch('--- a/x.ts\n+++ b/x.ts\n'), /No hunks for x.ts/);
+  });
+
+  it('rejects input without file headers', () => {
+    assert.throws(() => parsePatch('@@ -1 +1 @@\n-a\n+b\n'), /before any ---\/\+\+\+ file header/);
+    assert.throws(() => parsePatch('just text'), /No file headers found/);
+  });
+});
+
+describe('applyHunks', () => {
+  it('applies a hunk at the line in its header', () => {
+    const result = apply(FILE, '--- a/f\n+++ b/f\n@@ -2,3 +2,3 @@\n two\n-three\n+THREE\n four\n');
+    assert.equal(result.content, FILE.replace('three', 'THREE'));
+    assert.deepEqual(result.reports, [{ hunk: 1, header: '@@ -2,3 +2,3 @@', applied: true, line: 2, note: undefined }]);
+  });
+
+  it('finds a hunk whose line numbers are off', () => {
+    const result = apply(FILE, '--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n four\n-five\n+FIVE\n six\n');
+    assert.equal(result.content, FILE.replace('five', 'FIVE'));
+    assert.equal(result.reports[0].line, 4);
+    assert.equal(result.reports[0].note, 'offset +3');
+  });
+
+  it('ignores whitespace differences in context', () => {
+    const result = apply('if (x) {\n\treturn 1;\n}\n', '--- a/f\n+++ b/f\n@@ -1,3 +1,3 @@\n if (x) {\n-    return 1;\n+    return 2;\n }\n');
+    assert.equal(result.content, 'if (x) {\n    return 2;\n}\n');
+    assert.equal(result.reports[0].note, 'whitespace-insensitive');
+  });
+
+  it('drops mismatched outer context lines (fuzz)', () => {
+    const result = apply(FILE, '--- a/f\n+++ b/f\n@@ -2,5 +2,5 @@\n zwei\n three\n-four\n+FOUR\n five\n sechs\n');
+    assert.equal(result.content, FILE.replace('four', 'FOUR'));
+    assert.equal(result.reports[0].note, 'fuzz 1');
+  });
+
+  it('keeps CRLF line endings', () => {
+    const crlf = 'a\r\nb\r\nc\r\n';
+    const result = apply(crlf, '--- a/f\n+++ b/f\n@@ -1,3 +1,4 @@\n a\n b\n+b2\n c\n');
+    assert.equal(result.content, 'a\r\nb\r\nb2\r\nc\r\n');
+  });
+
+  it('honours "\\ No newline at end of file"', () => {
+    const result = apply('a\nb\n', '--- a/f\n+++ b/f\n@@ -1,2 +1,2 @@\n a\n-b\n+c\n\\ No newline at end of file\n');
+    assert.equal(result.content, 'a\nc');
+  });
+
+  it('reports the nearest region when a hunk does not apply', () => {
+    const result = apply(FILE, '--- a/f\n+++ b/f\n@@ -3,3 +3,3 @@\n three\n-for\n+FOUR\n five\n');
+    assert.equal(result.content, FILE);
+    assert.equal(result.reports[0].applied, false);
+    assert.deepEqual(result.reports[0].nearest, { start: 3, end: 5, matched: 2, total: 3, preview: 'three\nfour\nfive' });
+    assert.equal(
+      formatHunkReports('f', result.reports),
+      '✗ f hunk 1 failed: @@ -3,3 +3,3 @@\n  Nearest match: lines 3-5 (2/3 lines match):\n    | three\n    | four\n    | five'
+    );
+  });
+});
+
+describe('ToolExecutor.applyPatch', () => {
+  let repo: string;
+  let executor: ToolExecutor;
+  const read = (file: string) => fs.readFile(path.join(repo, file), 'utf-8').catch(() => null);
+
+  before(async () => {
+    repo = await fs.mkdtemp(path.join(os.tmpdir(), 'patch-test-'));
+    executor = new ToolExecutor(repo);
+  });
+  after(() => fs.rm(repo, { recursive: true, force: true }));
+
+  it('creates, deletes and renames files', async () => {
+    await fs.writeFile(path.join(repo, 'old.ts'), 'x\n');
+    await fs.writeFile(path.join(repo, 'gone.ts'), 'y\n');
+
+    const result = await executor.applyPatch([
+      '--- /dev/null', '+++ b/src/new.ts', '@@ -0,0 +1 @@', '+created',
+      '--- a/gone.ts', '+++ /dev/null', '@@ -1 +0,0 @@', '-y',
+      '--- a/old.ts', '+++ b/moved.ts', '@@ -1 +1 @@', '-x', '+x2',
+    ].join('\n'));
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.changedPaths, ['src/new.ts', 'gone.ts', 'old.ts', 'moved.ts']);
+    assert.equal(await read('src/new.ts'), 'created\n');
+    assert.equal(await read('gone.ts'), null);
+    assert.equal(await read('old.ts'), null);
+    assert.equal(await read('moved.ts'), 'x2\n');
+  });
+
+  it('changes no file when a hunk in another file fails', async () => {
+    await fs.writeFile(path.join(repo, 'a.ts'), 'a\n');
+    await fs.writeFile(path.join(repo, 'b.ts'), 'b\n');
+
+    const result = await executor.applyPatch([
+      '--- a/a.ts', '+++ b/a.ts', '@@ -1 +1 @@', '-a', '+A',
+      '--- a/b.ts', '+++ b/b.ts', '@@ -1 +1 @@', '-not in the file', '+B',
+    ].join('\n'));
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /1 hunk\(s\) failed, no files were changed/);
+    assert.match(result.output, /✓ a.ts hunk 1 applied/);
+    assert.equal(await read('a.ts'), 'a\n');
+    assert.equal(await read('b.ts'), 'b\n');
+  });
+
+  it('refuses protected paths spelled with a leading ./', async () => {
+    const result = await executor.applyPatch('--- /dev/null\n+++ b/./.cherry.yml\n@@ -0,0 +1 @@\n+x\n');
+    assert.deepEqual(result, { success: false, output: '', error: 'Cannot modify protected path: .cherry.yml' });
+  });
+});
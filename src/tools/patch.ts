@@ -0,0 +1,277 @@
+/**
+ * Unified diff parsing and fuzzy hunk application for the apply_patch tool.
+ *
+ * Hunks are located by their context, not their line numbers: an exact match is
+ * tried first, then whitespace-insensitive, then with up to MAX_FUZZ context
+ * lines dropped from each end (like `patch --fuzz`). Line numbers only break ties.
+ */
+
+export interface HunkLine {
+  type: ' ' | '-' | '+';
+  text: string;
+}
+
+export interface Hunk {
+  header: string;        // "@@ -10,6 +10,7 @@ ..."
+  oldStart: number;      // 1-based, 0 for new files
+  lines: HunkLine[];
+}
+
+export interface FilePatch {
+  oldPath: string | null;  // null = file is created
+  newPath: string | null;  // null = file is deleted
+  hunks: Hunk[];
+  noNewlineAtEnd: boolean; // "\ No newline at end of file" after the new side
+}
+
+export interface HunkReport {
+  hunk: number;            // 1-based
+  header: string;
+  applied: boolean;
+  line?: number;           // Where it applied (1-based)
+  note?: string;           // e.g. "offset +3, whitespace-insensitive"
+  nearest?: { start: number; end: number; matched: number; total: number; preview: string };
+}
+
+export interface PatchedFile {
+  content: string;
+  reports: HunkReport[];
+}
+
+const MAX_FUZZ = 2;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function stripPrefix(rawPath: string): string | null {
+  // Drop timestamps ("--- a/file\t2024-01-01 ...") and a/ b/ prefixes
+  const filePath = rawPath.split('\t')[0].trim();
+  if (filePath === '/dev/null') return null;
+  return filePath.replace(/^[ab]\//, '');
+}
+
+/**
+ * Parse a unified diff (as produced by `git diff` or `diff -u`) into per-file patches.
+ * Hunk line counts are ignored, since hand-written diffs often get them wrong.
+ */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let file: FilePatch | null = null;
+  let hunk: Hunk | null = null;
+
+  const isFileHeader = (i: number) => lines[i].startsWith('--- ') && lines[i + 1]?.startsWith('+++ ');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (isFileHeader(i)) {
+      file = {
+        oldPath: stripPrefix(line.slice(4)),
+        newPath: stripPrefix(lines[i + 1].slice(4)),
+        hunks: [],
+        noNewlineAtEnd: false,
+      };
+      files.push(file);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const hunkHeader = line.match(/^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/);
+    if (hunkHeader) {
+      if (!file) throw new Error(`Hunk "${line}" appears before any ---/+++ file header`);
+      hunk = { header: line, oldStart: Number(hunkHeader[1]), lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk || !file) continue;  // "diff --git", "index ..." and other preamble
+
+    if (line.startsWith('diff ')) {
+      hunk = null;
+    } else if (line.startsWith('\\')) {
+      // "\ No newline at end of file" refers to the line before it
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous && previous.type !== '-') file.noNewlineAtEnd = true;
+    } else if (line[0] === ' ' || line[0] === '-' || line[0] === '+') {
+      hunk.lines.push({ type: line[0] as HunkLine['type'], text: line.slice(1) });
+    } else if (line === '') {
+      // Blank context lines often lose their leading space; blanks before the next hunk or file are separators
+      let next = i + 1;
+      while (next < lines.length && lines[next] === '') next++;
+      if (next < lines.length && /^[ +-]/.test(lines[next]) && !isFileHeader(next)) {
+        hunk.lines.push({ type: ' ', text: '' });
+      }
+    } else {
+      throw new Error(`Unexpected line in hunk ${hunk.header}: "${line.slice(0, 80)}"`);
+    }
+  }
+
+  if (files.length === 0) {
+    throw new Error('No file headers found. Expected a unified diff with "--- a/path" and "+++ b/path" lines.');
+  }
+  for (const f of files) {
+    // Creations, deletions and renames may have no hunks; a plain edit must have some
+    if (f.hunks.length === 0 && f.oldPath !== null && f.oldPath === f.newPath) {
+      throw new Error(`No hunks for ${f.newPath}`);
+    }
+  }
+
+  return files;
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+type Normalizer = (line: string) => string;
+
+const NORMALIZERS: { name?: string; normalize: Normalizer }[] = [
+  { normalize: l => l },
+  { name: 'ignoring trailing whitespace', normalize: l => l.trimEnd() },
+  { name: 'whitespace-insensitive', normalize: l => l.replace(/\s+/g, ' ').trim() },
+];
+
+function matchesAt(fileLines: string[], at: number, expected: string[], normalize: Normalizer): boolean {
+  if (at < 0 || at + expected.length > fileLines.length) return false;
+  return expected.every((line, k) => normalize(fileLines[at + k]) === normalize(line));
+}
+
+/**
+ * Closest position at or after `from` where `expected` matches, preferring positions near `hint`
+ */
+function findMatch(fileLines: string[], expected: string[], from: number, hint: number, normalize: Normalizer): number {
+  let best = -1;
+  for (let at = from; at + expected.length <= fileLines.length; at++) {
+    if (matchesAt(fileLines, at, expected, normalize) && (best < 0 || Math.abs(at - hint) < Math.abs(best - hint))) {
+      best = at;
+    }
+  }
+  // Pure insertions (no context) go where the header says
+  if (expected.length === 0) return Math.min(Math.max(hint, from), fileLines.length);
+  return best;
+}
+
+/**
+ * Region with the most lines in common with the hunk's old side, for error reports
+ */
+function nearestRegion(fileLines: string[], expected: string[]): HunkReport['nearest'] {
+  if (expected.length === 0 || fileLines.length === 0) return undefined;
+  const normalize = NORMALIZERS[2].normalize;
+  const wanted = expected.map(normalize);
+
+  let best = { at: 0, matched: -1 };
+  for (let at = 0; at <= Math.max(0, fileLines.length - expected.length); at++) {
+    let matched = 0;
+    for (let k = 0; k < wanted.length && at + k < fileLines.length; k++) {
+      if (normalize(fileLines[at + k]) === wanted[k]) matched++;
+    }
+    if (matched > best.matched) best = { at, matched };
+  }
+  if (best.matched <= 0) return undefined;
+
+  const end = Math.min(fileLines.length, best.at + expected.length);
+  return {
+    start: best.at + 1,
+    end,
+    matched: best.matched,
+    total: expected.length,
+    preview: fileLines.slice(best.at, end).join('\n'),
+  };
+}
+
+/**
+ * Apply a file's hunks to its content. Hunks that fail are reported and skipped;
+ * callers decide whether a partial result is acceptable (apply_patch: it isn't).
+ */
+export function applyHunks(original: string, filePatch: FilePatch): PatchedFile {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const hadTrailingNewline = original === '' || original.endsWith('\n');
+  let fileLines = original === '' ? [] : original.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+
+  const reports: HunkReport[] = [];
+  let searchFrom = 0;  // Hunks apply in order
+  let offset = 0;      // Net lines added by earlier hunks
+
+  filePatch.hunks.forEach((hunk, index) => {
+    const report: HunkReport = { hunk: index + 1, header: hunk.header, applied: false };
+    reports.push(report);
+
+    for (let fuzz = 0; fuzz <= MAX_FUZZ && !report.applied; fuzz++) {
+      const lines = trimContext(hunk.lines, fuzz);
+      if (!lines) break;
+      const expected = lines.filter(l => l.type !== '+').map(l => l.text);
+      const hint = Math.max(0, hunk.oldStart - 1 + offset + leadingContextDropped(hunk.lines, lines));
+
+      for (const { name, normalize } of NORMALIZERS) {
+        const at = findMatch(fileLines, expected, searchFrom, hint, normalize);
+        if (at < 0) continue;
+
+        // Context lines keep the file's version; only '+' lines come from the patch
+        const replacement: string[] = [];
+        let cursor = at;
+        for (const line of lines) {
+          if (line.type === ' ') replacement.push(fileLines[cursor++]);
+          else if (line.type === '-') cursor++;
+          else replacement.push(line.text);
+        }
+
+        fileLines = [...fileLines.slice(0, at), ...replacement, ...fileLines.slice(at + expected.length)];
+        searchFrom = at + replacement.length;
+        offset += replacement.length - expected.length;
+
+        const notes = [
+          at !== hint ? `offset ${at - hint > 0 ? '+' : ''}${at - hint}` : '',
+          name || '',
+          fuzz > 0 ? `fuzz ${fuzz}` : '',
+        ].filter(Boolean);
+        Object.assign(report, { applied: true, line: at + 1, note: notes.join(', ') || undefined });
+        break;
+      }
+    }
+
+    if (!report.applied) {
+      report.nearest = nearestRegion(fileLines, hunk.lines.filter(l => l.type !== '+').map(l => l.text));
+    }
+  });
+
+  const trailingNewline = filePatch.noNewlineAtEnd ? false : hadTrailingNewline;
+  const content = fileLines.length === 0 ? '' : fileLines.join(eol) + (trailingNewline ? eol : '');
+  return { content, reports };
+}
+
+/**
+ * Drop up to `fuzz` context lines from each end of a hunk; null when nothing is left to anchor on
+ */
+function trimContext(lines: HunkLine[], fuzz: number): HunkLine[] | null {
+  if (fuzz === 0) return lines;
+  let start = 0;
+  let end = lines.length;
+  for (let k = 0; k < fuzz && start < end && lines[start].type === ' '; k++) start++;
+  for (let k = 0; k < fuzz && end > start && lines[end - 1].type === ' '; k++) end--;
+  if (start === 0 && end === lines.length) return null;  // No context to drop, fuzz can't help
+  const trimmed = lines.slice(start, end);
+  return trimmed.some(l => l.type !== '+') ? trimmed : null;
+}
+
+function leadingContextDropped(original: HunkLine[], trimmed: HunkLine[]): number {
+  return original.indexOf(trimmed[0]);
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+export function formatHunkReports(filePath: string, reports: HunkReport[]): string {
+  return reports.map(r => {
+    if (r.applied) {
+      return `✓ ${filePath} hunk ${r.hunk} applied at line ${r.line}${r.note ? ` (${r.note})` : ''}`;
+    }
+    const nearest = r.nearest
+      ? `\n  Nearest match: lines ${r.nearest.start}-${r.nearest.end} (${r.nearest.matched}/${r.nearest.total} lines match):\n${r.nearest.preview.split('\n').map(l => `    | ${l}`).join('\n')}`
+      : '\n  No similar region found. Re-read the file before retrying.';
+    return `✗ ${filePath} hunk ${r.hunk} failed: ${r.header}${nearest}`;
+  }).join('\n');
+}
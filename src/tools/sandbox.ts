@@ -0,0 +1,235 @@
+import { spawn, execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SandboxSettings } from '../types/index.js';
+
+/**
+ * Runs agent commands with:
+ * - a scrubbed environment (secrets never reach postinstall scripts or test files)
+ * - the repo as working directory, and with bubblewrap the only writable path besides /tmp
+ *   (its .git is read-only and .git/hooks is masked, so nothing planted there runs later)
+ * - optional network isolation via bubblewrap or `unshare --net`
+ * - CPU / memory limits via prlimit, a wall-clock timeout and capped output
+ *
+ * The `unshare` fallback only isolates the network: the filesystem, .git included, stays writable.
+ * Git commands the agent runs itself on the checkout (commit, push) go through `trustedGitArgs`.
+ */
+
+export interface SandboxResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  error?: string;       // Spawn failure, e.g. binary not found
+}
+
+export interface SandboxRunOptions {
+  cwd: string;
+  settings: SandboxSettings;
+  extraEnv?: Record<string, string | undefined>;  // Added after scrubbing, e.g. the Claude Code API key
+}
+
+// Always passed through: enough for package managers and compilers to work
+const BASE_ENV = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'TZ', 'CI', 'NODE_OPTIONS', 'NODE_ENV'];
+
+// Never passed through, even when listed in settings.env
+const SECRET_ENV = /TOKEN|SECRET|KEY|PASSWORD|CREDENTIAL|^SUPABASE_|^AWS_|^GH_|^GITHUB_/i;
+
+// Credentials actions/checkout (or a token remote URL) left in .git/config
+const STORED_CREDENTIALS = /extraheader|:\/\/[^/\s@]+:[^/\s@]+@/i;
+
+const availability = new Map<string, boolean>();
+const warnedCredentials = new Set<string>();
+let warnedNoIsolation = false;
+let warnedNoFilesystemIsolation = false;
+
+function isAvailable(binary: string): boolean {
+  if (!availability.has(binary)) {
+    try {
+      execFileSync('which', [binary], { stdio: 'ignore' });
+      availability.set(binary, true);
+    } catch {
+      availability.set(binary, false);
+    }
+  }
+  return availability.get(binary)!;
+}
+
+export function buildSandboxEnv(settings: SandboxSettings, extraEnv: Record<string, string | undefined> = {}): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+
+  for (const name of BASE_ENV) {
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  for (const name of settings.env) {
+    if (SECRET_ENV.test(name)) {
+      console.warn(`[Sandbox] Not passing ${name} to commands: looks like a secret`);
+    } else if (process.env[name] !== undefined) {
+      env[name] = process.env[name];
+    }
+  }
+  for (const [name, value] of Object.entries(extraEnv)) {
+    if (value !== undefined) env[name] = value;
+  }
+
+  return env;
+}
+
+/**
+ * `git -c` options for git commands run outside the sandbox on the checkout. Hooks are
+ * disabled (sandboxed code may have written them when bubblewrap was missing) and the
+ * token is passed for this command only instead of being stored in .git/config.
+ */
+export function trustedGitArgs(token?: string): string[] {
+  const args = ['-c', 'core.hooksPath=/dev/null'];
+  if (token) {
+    const basic = Buffer.from(`x-access-token:${token}`).toString('base64');
+    args.push('-c', `http.https://github.com/.extraheader=AUTHORIZATION: basic ${basic}`);
+  }
+  return args;
+}
+
+/**
+ * bwrap mounts that keep .git out of reach: read-only, with an empty hooks directory
+ */
+function gitMounts(repo: string): string[] {
+  const gitDir = path.join(repo, '.git');
+  if (!fs.existsSync(gitDir)) return [];
+
+  const mounts = ['--ro-bind', gitDir, gitDir];
+  const hooksDir = path.join(gitDir, 'hooks');
+  if (fs.existsSync(hooksDir)) mounts.push('--tmpfs', hooksDir);
+
+  const configPath = path.join(gitDir, 'config');
+  if (!warnedCredentials.has(repo) && fs.existsSync(configPath) && STORED_CREDENTIALS.test(fs.readFileSync(configPath, 'utf-8'))) {
+    warnedCredentials.add(repo);
+    console.warn(`[Sandbox] ${configPath} stores credentials that commands can read; check out with persist-credentials: false`);
+  }
+
+  return mounts;
+}
+
+/**
+ * Wrap argv with the isolation and limit tools available on this machine
+ */
+export function buildSandboxArgv(argv: string[], cwd: string, settings: SandboxSettings): string[] {
+  let wrapped = argv;
+
+  const limits: string[] = [];
+  if (settings.cpuSeconds > 0) limits.push(`--cpu=${settings.cpuSeconds}`);
+  if (settings.memoryMb > 0) limits.push(`--data=${settings.memoryMb * 1024 * 1024}`);
+  if (limits.length > 0) {
+    if (isAvailable('prlimit')) {
+      wrapped = ['prlimit', ...limits, '--', ...wrapped];
+    } else {
+      console.warn('[Sandbox] prlimit not found, running without CPU/memory limits');
+    }
+  }
+
+  if (isAvailable('bwrap')) {
+    // Read-only root; only the repo (minus .git) and a private /tmp are writable.
+    // HOME moves into /tmp so caches work without exposing the runner's dotfiles.
+    const repo = path.resolve(cwd);
+    return [
+      'bwrap',
+      '--ro-bind', '/', '/',
+      '--dev', '/dev',
+      '--proc', '/proc',
+      '--tmpfs', '/tmp',
+      '--dir', '/tmp/home',
+      '--setenv', 'HOME', '/tmp/home',
+      '--bind', repo, repo,
+      ...gitMounts(repo),
+      '--chdir', repo,
+      '--die-with-parent',
+      ...(settings.network ? [] : ['--unshare-net']),
+      '--',
+      ...wrapped,
+    ];
+  }
+
+  if (!warnedNoFilesystemIsolation) {
+    warnedNoFilesystemIsolation = true;
+    console.warn('[Sandbox] bwrap not found, commands can write anywhere the runner can, including .git');
+  }
+
+  if (!settings.network) {
+    if (isAvailable('unshare')) {
+      return ['unshare', '--net', '--map-root-user', '--', ...wrapped];
+    }
+    if (!warnedNoIsolation) {
+      warnedNoIsolation = true;
+      console.warn('[Sandbox] Neither bwrap nor unshare found, commands will have network access');
+    }
+  }
+
+  return wrapped;
+}
+
+/**
+ * Run argv (no shell) inside the sandbox. Never throws; failures are reported in the result.
+ */
+export function runSandboxed(argv: string[], options: SandboxRunOptions): Promise<SandboxResult> {
+  const { cwd, settings } = options;
+  const [binary, ...args] = buildSandboxArgv(argv, cwd, settings);
+
+  return new Promise(resolve => {
+    const child = spawn(binary, args, {
+      cwd,
+      env: buildSandboxEnv(settings, options.extraEnv),
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,  // Own process group, so a timeout kills the whole tree
+    });
+
+    const output = { stdout: '', stderr: '' };
+    let truncated = false;
+    let timedOut = false;
+
+    const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const room = settings.maxOutputBytes - output.stdout.length - output.stderr.length;
+      if (room <= 0) {
+        truncated = true;
+        return;
+      }
+      const text = chunk.toString('utf-8');
+      if (text.length > room) truncated = true;
+      output[stream] += text.slice(0, room);
+    };
+    child.stdout.on('data', collect('stdout'));
+    child.stderr.on('data', collect('stderr'));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, 'SIGKILL');
+      } catch {
+        child.kill('SIGKILL');
+      }
+    }, settings.timeoutSeconds * 1000);
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer);
+      resolve({
+        exitCode: null,
+        ...output,
+        timedOut,
+        truncated,
+        error: error.code === 'ENOENT' ? `Command not found: ${argv[0]}` : error.message,
+      });
+    });
+
+    child.on('close', (code, signal) => {
+      clearTimeout(timer);
+      resolve({
+        exitCode: code,
+        ...output,
+        timedOut,
+        truncated,
+        error: timedOut
+          ? `Timed out after ${settings.timeoutSeconds}s`
+          : signal ? `Killed by ${signal}${signal === 'SIGXCPU' || signal === 'SIGKILL' ? ' (CPU or memory limit?)' : ''}` : undefined,
+      });
+    });
+  });
+}
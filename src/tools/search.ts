@@ -0,0 +1,383 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { spawn, execFile } from 'child_process';
+import { promisify } from 'util';
+
+/**
+ * Code search for the search_code tool.
+ *
+ * Uses ripgrep when it is installed, otherwise a Node fallback that lists files with
+ * `git ls-files` (or a directory walk outside git) and matches them line by line.
+ * Both respect .gitignore, skip binary and very large files, and return the same
+ * structure. The pattern is always passed as a single argv entry, never through a shell.
+ */
+
+const execFileAsync = promisify(execFile);
+
+export interface SearchOptions {
+  fixedStrings?: boolean;    // Treat the pattern as literal text
+  caseSensitive?: boolean;   // Default: smart case (insensitive unless the pattern has uppercase)
+  contextLines?: number;
+  maxResults?: number;       // Matches shown; files and counts are still reported beyond it
+  paths?: string[];          // Repo-relative files or directories to search in (default: everything)
+  globs?: string[];          // Include globs; a leading ! excludes
+}
+
+export interface SearchLine {
+  line: number;              // 1-based
+  text: string;
+  match: boolean;            // false for context lines
+}
+
+export interface FileMatches {
+  path: string;
+  count: number;             // All matches in the file, including ones not shown
+  lines: SearchLine[];       // Shown matches and their context, in line order
+}
+
+export interface SearchResult {
+  engine: 'ripgrep' | 'node';
+  files: FileMatches[];
+  totalMatches: number;
+  shownMatches: number;
+  incomplete: boolean;       // Stopped counting at MAX_COUNTED_MATCHES
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_CONTEXT_LINES = 10;
+const MAX_COUNTED_MATCHES = 10000;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_LINE_LENGTH = 300;
+
+// Never searched, even outside git or when not ignored
+const ALWAYS_EXCLUDED = ['.git', 'node_modules'];
+
+// Skipped by the walker when there is no git repo to read ignore rules from
+const WALKER_EXCLUDED = [...ALWAYS_EXCLUDED, 'dist', 'build', '.next', 'coverage', '.turbo'];
+
+let ripgrepAvailable: Promise<boolean> | null = null;
+
+function hasRipgrep(): Promise<boolean> {
+  ripgrepAvailable ||= execFileAsync('rg', ['--version']).then(() => true, () => false);
+  return ripgrepAvailable;
+}
+
+export async function searchFiles(root: string, pattern: string, options: SearchOptions = {}): Promise<SearchResult> {
+  if (!pattern) throw new Error('Search pattern is empty');
+  if (!options.fixedStrings) {
+    try {
+      new RegExp(pattern);
+    } catch (error) {
+      throw new Error(`Invalid regex: ${error instanceof Error ? error.message : error}. Set fixed_strings to search literal text.`);
+    }
+  }
+
+  return (await hasRipgrep()) ? searchWithRipgrep(root, pattern, options) : searchWithNode(root, pattern, options);
+}
+
+// ============================================================================
+// COLLECTING
+// ============================================================================
+
+/**
+ * Builds the result from a stream of match/context lines, so both engines
+ * apply the same limits
+ */
+class ResultCollector {
+  private files = new Map<string, FileMatches>();
+  private lastShownMatch = new Map<string, number>();
+  private shown = 0;
+  private total = 0;
+
+  constructor(private maxResults: number, private contextLines: number) {}
+
+  get full(): boolean {
+    return this.total >= MAX_COUNTED_MATCHES;
+  }
+
+  get matches(): number {
+    return this.total;
+  }
+
+  add(filePath: string, line: number, text: string, match: boolean): void {
+    const file = this.files.get(filePath) || { path: filePath, count: 0, lines: [] };
+    this.files.set(filePath, file);
+
+    if (match) {
+      if (this.full) return;
+      file.count++;
+      this.total++;
+    }
+
+    // Context after the last shown match is kept; everything else only while under the limit
+    const last = this.lastShownMatch.get(filePath);
+    const trailingContext = !match && last !== undefined && line <= last + this.contextLines;
+    if (this.shown >= this.maxResults && !trailingContext) return;
+
+    if (match) {
+      this.shown++;
+      this.lastShownMatch.set(filePath, line);
+    }
+    const clipped = text.length > MAX_LINE_LENGTH ? `${text.slice(0, MAX_LINE_LENGTH)}…` : text;
+    file.lines.push({ line, text: clipped, match });
+  }
+
+  result(engine: SearchResult['engine']): SearchResult {
+    const files = [...this.files.values()]
+      .filter(f => f.count > 0)
+      .map(f => ({ ...f, lines: this.trimDanglingContext(f.lines) }));
+    return { engine, files, totalMatches: this.total, shownMatches: this.shown, incomplete: this.full };
+  }
+
+  /**
+   * Drop before-context of a match that wasn't counted because the search stopped
+   */
+  private trimDanglingContext(lines: SearchLine[]): SearchLine[] {
+    const lastMatch = [...lines].reverse().find(l => l.match)?.line ?? 0;
+    return lines.filter(l => l.line <= lastMatch + this.contextLines);
+  }
+}
+
+function clampOptions(options: SearchOptions): { maxResults: number; contextLines: number } {
+  return {
+    maxResults: Math.max(1, Math.floor(options.maxResults || DEFAULT_MAX_RESULTS)),
+    contextLines: Math.min(Math.max(0, Math.floor(options.contextLines || 0)), MAX_CONTEXT_LINES),
+  };
+}
+
+function isCaseSensitive(pattern: string, options: SearchOptions): boolean {
+  return options.caseSensitive ?? /[A-Z]/.test(pattern);
+}
+
+// ============================================================================
+// RIPGREP
+// ============================================================================
+
+interface RipgrepMessage {
+  type: 'begin' | 'match' | 'context' | 'end' | 'summary';
+  data: {
+    path?: { text?: string };
+    lines?: { text?: string };
+    line_number?: number;
+  };
+}
+
+function searchWithRipgrep(root: string, pattern: string, options: SearchOptions): Promise<SearchResult> {
+  const { maxResults, contextLines } = clampOptions(options);
+  const collector = new ResultCollector(maxResults, contextLines);
+
+  const args = [
+    '--json',
+    '--hidden',                       // .github etc.; .gitignore'd files stay excluded
+    `--max-filesize=${MAX_FILE_BYTES}`,
+    isCaseSensitive(pattern, options) ? '--case-sensitive' : '--ignore-case',
+    ...(options.fixedStrings ? ['--fixed-strings'] : []),
+    ...(contextLines > 0 ? [`--context=${contextLines}`] : []),
+    ...ALWAYS_EXCLUDED.map(dir => `--glob=!${dir}`),
+    ...(options.globs || []).map(glob => `--glob=${glob}`),
+    '--regexp', pattern,
+    '--',
+    ...(options.paths?.length ? options.paths : ['.']),
+  ];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('rg', args, { cwd: root, stdio: ['ignore', 'pipe', 'pipe'] });
+    let buffered = '';
+    let stderr = '';
+    let killed = false;
+
+    const handleLine = (line: string) => {
+      if (!line || killed) return;
+      let message: RipgrepMessage;
+      try {
+        message = JSON.parse(line) as RipgrepMessage;
+      } catch {
+        return;  // Not a complete JSON message; never throw inside a stream listener
+      }
+      if (message.type !== 'match' && message.type !== 'context') return;
+      const filePath = (message.data.path?.text || '').replace(/^\.\//, '');
+      const text = (message.data.lines?.text || '').replace(/\r?\n$/, '');
+      collector.add(filePath, message.data.line_number || 0, text, message.type === 'match');
+      if (collector.full) {
+        killed = true;
+        child.kill();
+      }
+    };
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      buffered += chunk.toString('utf-8');
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      lines.forEach(handleLine);
+    });
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString('utf-8'); });
+
+    child.on('error', reject);
+    child.on('close', code => {
+      // After a kill the trailing buffer is a cut-off line; skip it
+      if (!killed) handleLine(buffered);
+      // 0 = matches, 1 = no matches, killed = hit the count limit.
+      // 2 = errors, e.g. an unreadable file; still fine if other files matched.
+      if (code === 0 || code === 1 || collector.full || collector.matches > 0) {
+        resolve(collector.result('ripgrep'));
+      } else {
+        reject(new Error(`ripgrep failed: ${stderr.trim() || `exit code ${code}`}`));
+      }
+    });
+  });
+}
+
+// ============================================================================
+// NODE FALLBACK
+// ============================================================================
+
+async function searchWithNode(root: string, pattern: string, options: SearchOptions): Promise<SearchResult> {
+  const { maxResults, contextLines } = clampOptions(options);
+  const collector = new ResultCollector(maxResults, contextLines);
+
+  const source = options.fixedStrings ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+  const regex = new RegExp(source, isCaseSensitive(pattern, options) ? '' : 'i');
+
+  const includes = (options.globs || []).filter(g => !g.startsWith('!')).map(globToRegExp);
+  const excludes = (options.globs || []).filter(g => g.startsWith('!')).map(g => globToRegExp(g.slice(1)));
+  const scopes = (options.paths || []).map(p => p.replace(/\/+$/, '')).filter(p => p && p !== '.');
+
+  const files = (await listSearchableFiles(root)).filter(file =>
+    (scopes.length === 0 || scopes.some(scope => file === scope || file.startsWith(scope + '/'))) &&
+    (includes.length === 0 || includes.some(glob => glob.test(file))) &&
+    !excludes.some(glob => glob.test(file))
+  );
+
+  for (const file of files) {
+    if (collector.full) break;
+
+    const content = await readTextFile(path.join(root, file));
+    if (content === null) continue;
+
+    const lines = content.replace(/\r?\n$/, '').split(/\r?\n/);
+    const matched = lines.map(line => regex.test(line));
+    const emitted = new Set<number>();
+
+    matched.forEach((isMatch, i) => {
+      if (!isMatch) return;
+      for (let j = Math.max(0, i - contextLines); j <= Math.min(lines.length - 1, i + contextLines); j++) {
+        if (emitted.has(j)) continue;
+        // Emit in line order; later lines of this window are emitted by their own match if they match
+        if (j > i && matched[j]) break;
+        emitted.add(j);
+        collector.add(file, j + 1, lines[j], matched[j]);
+      }
+    });
+  }
+
+  return collector.result('node');
+}
+
+/**
+ * Files git would consider (tracked plus untracked, minus ignored); a walk outside git
+ */
+async function listSearchableFiles(root: string): Promise<string[]> {
+  try {
+    const { stdout } = await execFileAsync('git', ['ls-files', '-z', '--cached', '--others', '--exclude-standard'], {
+      cwd: root,
+      maxBuffer: 1024 * 1024 * 50,
+    });
+    const files = [...new Set(stdout.split('\0').filter(Boolean))];
+    return files.filter(f => !ALWAYS_EXCLUDED.some(dir => f === dir || f.startsWith(dir + '/')));
+  } catch {
+    return walk(root, '');
+  }
+}
+
+async function walk(root: string, relative: string): Promise<string[]> {
+  const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    if (WALKER_EXCLUDED.includes(entry.name)) continue;
+    const entryPath = relative ? `${relative}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await walk(root, entryPath));
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * File content, or null for binary, oversized and unreadable files
+ */
+async function readTextFile(fullPath: string): Promise<string | null> {
+  try {
+    const stat = await fs.stat(fullPath);
+    if (stat.size > MAX_FILE_BYTES) return null;
+    const buffer = await fs.readFile(fullPath);
+    if (buffer.subarray(0, 8000).includes(0)) return null;
+    return buffer.toString('utf-8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ripgrep-style globs: without a slash they match the file name at any depth,
+ * with one they match the repo-relative path. Supports *, **, ? and {a,b}.
+ */
+function globToRegExp(glob: string): RegExp {
+  const anchored = glob.includes('/');
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{' && glob.indexOf('}', i) > i) {
+      const end = glob.indexOf('}', i);
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(o => o.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`;
+      i = end;
+    } else {
+      pattern += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(anchored ? `^${pattern.replace(/^\//, '')}$` : `(?:^|/)${pattern}$`);
+}
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/**
+ * Grep-style listing grouped by file: "12:" marks a match, "11-" a context line
+ */
+export function formatSearchResult(result: SearchResult): string {
+  if (result.totalMatches === 0) return 'No matches found';
+
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : word.endsWith('h') ? 'es' : 's'}`;
+  const total = `${plural(result.totalMatches, 'match')}${result.incomplete ? ' (stopped counting)' : ''}`;
+  const files = plural(result.files.length, 'file');
+  const header = result.shownMatches < result.totalMatches
+    ? `${total} in ${files} (showing the first ${result.shownMatches}):`
+    : `${total} in ${files}:`;
+
+  const shown = result.files.filter(f => f.lines.some(l => l.match));
+  const notShown = result.files.filter(f => !f.lines.some(l => l.match));
+
+  const sections = shown.map(file => {
+    const body: string[] = [];
+    file.lines.forEach((l, i) => {
+      if (i > 0 && l.line > file.lines[i - 1].line + 1) body.push('  --');
+      body.push(`  ${l.line}${l.match ? ':' : '-'} ${l.text}`);
+    });
+    return `${file.path} (${plural(file.count, 'match')})\n${body.join('\n')}`;
+  });
+
+  if (notShown.length > 0) {
+    sections.push(`More matches in:\n${notShown.map(f => `  ${f.path} (${f.count})`).join('\n')}`);
+  }
+
+  return `${header}\n\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,374 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createRequire } from 'module';
+import type * as TS from 'typescript';
+
+/**
+ * Symbol navigation for find_definition, find_references, list_exports and get_type_of.
+ *
+ * Backed by a TypeScript language service per repository, configured from the repo's
+ * tsconfig.json. The language service runs in this process, so it always uses the typescript
+ * package we ship with: the repo's own copy is code the agents can change. File versions are their mtimes, so edits made by the implementer are picked up on the next call.
+ */
+
+type TypeScript = typeof TS;
+
+export interface SymbolQuery {
+  symbol: string;   // "foo", or "Class.method" to disambiguate members
+  file?: string;    // Absolute path of a file where the symbol appears
+  line?: number;    // 1-based line in that file
+}
+
+interface Project {
+  ts: TypeScript;
+  root: string;
+  service: TS.LanguageService;
+  options: TS.CompilerOptions;
+  fileNames: string[];
+}
+
+const MAX_REFERENCES = 200;
+const MAX_DECLARATIONS = 20;
+const MAX_OCCURRENCES = 10;   // Per file; several only matter when a name is shadowed
+const MAX_TEXT_LENGTH = 200;
+const MAX_PROJECTS = 4;       // The webhook server is long-running; least recently used are dropped
+
+const ts: TypeScript = createRequire(import.meta.url)('typescript');
+
+// Insertion order is recency: getProject re-inserts on every use
+const projects = new Map<string, Project>();
+
+// ============================================================================
+// PROJECT
+// ============================================================================
+
+/**
+ * Compiler options and root files from tsconfig.json. Solution-style configs
+ * ("files": [] plus references, as in Vite templates) use their referenced projects.
+ */
+function readProjectConfig(ts: TypeScript, root: string): { options: TS.CompilerOptions; fileNames: string[] } {
+  const configPath = path.join(root, 'tsconfig.json');
+
+  if (!fs.existsSync(configPath)) {
+    // Plain JS project or no config: look at everything outside dependencies and build output
+    const fileNames = ts.sys.readDirectory(root, ['.ts', '.tsx', '.js', '.jsx', '.mts', '.cts'], ['node_modules', 'dist', 'build', '.next']);
+    return { options: { allowJs: true, checkJs: false, jsx: ts.JsxEmit.Preserve, noEmit: true }, fileNames };
+  }
+
+  const parse = (file: string) => {
+    const { config, error } = ts.readConfigFile(file, ts.sys.readFile);
+    if (error) throw new Error(`Could not read ${path.relative(root, file)}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    return ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(file), undefined, file);
+  };
+
+  const parsed = parse(configPath);
+  if (parsed.fileNames.length > 0 || !parsed.projectReferences?.length) {
+    return { options: parsed.options, fileNames: parsed.fileNames };
+  }
+
+  const referenced = parsed.projectReferences
+    .map(ref => ts.resolveProjectReferencePath(ref))
+    .filter(file => fs.existsSync(file))
+    .map(parse);
+  return {
+    options: referenced.find(p => p.fileNames.length > 0)?.options || parsed.options,
+    fileNames: [...new Set(referenced.flatMap(p => p.fileNames))],
+  };
+}
+
+function getProject(root: string): Project {
+  const existing = projects.get(root);
+  if (existing) {
+    // New files may have been created since the last call
+    const { options, fileNames } = readProjectConfig(existing.ts, root);
+    Object.assign(existing, { options, fileNames });
+    projects.delete(root);
+    projects.set(root, existing);
+    return existing;
+  }
+
+  const { options, fileNames } = readProjectConfig(ts, root);
+  console.log(`[Symbols] TypeScript ${ts.version}: ${fileNames.length} files in ${root}`);
+
+  const project = { ts, root, options, fileNames } as Project;
+  const host: TS.LanguageServiceHost = {
+    getScriptFileNames: () => project.fileNames,
+    getScriptVersion: fileName => {
+      try {
+        return String(fs.statSync(fileName).mtimeMs);
+      } catch {
+        return '0';
+      }
+    },
+    getScriptSnapshot: fileName => {
+      if (!fs.existsSync(fileName)) return undefined;
+      return ts.ScriptSnapshot.fromString(fs.readFileSync(fileName, 'utf-8'));
+    },
+    getCurrentDirectory: () => root,
+    getCompilationSettings: () => project.options,
+    getDefaultLibFileName: opts => ts.getDefaultLibFilePath(opts),
+    fileExists: ts.sys.fileExists,
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+  };
+  project.service = ts.createLanguageService(host, ts.createDocumentRegistry());
+
+  projects.set(root, project);
+  for (const [oldRoot, old] of projects) {
+    if (projects.size <= MAX_PROJECTS) break;
+    old.service.dispose();
+    projects.delete(oldRoot);
+  }
+  return project;
+}
+
+/**
+ * Make sure a file the agent points at is part of the program, even if tsconfig doesn't include it
+ */
+function includeFile(project: Project, file: string): void {
+  if (!fs.existsSync(file)) throw new Error(`File not found: ${path.relative(project.root, file)}`);
+  if (!project.fileNames.includes(file)) project.fileNames = [...project.fileNames, file];
+}
+
+// ============================================================================
+// LOCATING SYMBOLS
+// ============================================================================
+
+interface Position {
+  fileName: string;
+  position: number;
+}
+
+function splitSymbol(symbol: string): { name: string; container?: string } {
+  const parts = symbol.trim().split('.');
+  const name = parts.pop() || '';
+  if (!/^[\w$]+$/.test(name)) throw new Error(`"${symbol}" is not an identifier`);
+  return { name, container: parts.length > 0 ? parts.join('.') : undefined };
+}
+
+/**
+ * Occurrences of the symbol in a file (optionally one line) that the compiler resolves,
+ * skipping hits in comments and strings
+ */
+function positionsInFile(project: Project, query: SymbolQuery & { file: string }): Position[] {
+  includeFile(project, query.file);
+  const { name } = splitSymbol(query.symbol);
+  const text = fs.readFileSync(query.file, 'utf-8');
+
+  let start = 0;
+  let end = text.length;
+  if (query.line) {
+    const lines = text.split('\n');
+    if (query.line < 1 || query.line > lines.length) {
+      throw new Error(`Line ${query.line} is outside ${path.relative(project.root, query.file)} (${lines.length} lines)`);
+    }
+    start = lines.slice(0, query.line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+    end = start + lines[query.line - 1].length;
+  }
+
+  const pattern = new RegExp(`(?<![\\w$])${name.replace(/\$/g, '\\$')}(?![\\w$])`, 'g');
+  const positions: Position[] = [];
+  for (const match of text.slice(start, end).matchAll(pattern)) {
+    const position = start + match.index!;
+    if (project.service.getDefinitionAtPosition(query.file, position)?.length) {
+      positions.push({ fileName: query.file, position });
+      if (positions.length >= MAX_OCCURRENCES) break;
+    }
+  }
+  return positions;
+}
+
+/**
+ * Declarations found by name across the project, for queries without a file
+ */
+function declarationsByName(project: Project, symbol: string): TS.NavigateToItem[] {
+  const { name, container } = splitSymbol(symbol);
+  return project.service
+    .getNavigateToItems(name, MAX_DECLARATIONS * 5, undefined, true)
+    .filter(item => item.name === name && (!container || item.containerName === container))
+    .sort((a, b) => Number(a.fileName.includes('/node_modules/')) - Number(b.fileName.includes('/node_modules/')))
+    .slice(0, MAX_DECLARATIONS);
+}
+
+function resolvePositions(project: Project, query: SymbolQuery): Position[] {
+  if (query.file) {
+    const positions = positionsInFile(project, { ...query, file: query.file });
+    if (positions.length === 0) {
+      const where = `${path.relative(project.root, query.file)}${query.line ? ` line ${query.line}` : ''}`;
+      throw new Error(`"${query.symbol}" not found in ${where}`);
+    }
+    return positions;
+  }
+
+  const declarations = declarationsByName(project, query.symbol);
+  if (declarations.length === 0) {
+    throw new Error(`No declaration named "${query.symbol}" found. Pass the file (and line) where it is used.`);
+  }
+  return declarations.map(d => ({ fileName: d.fileName, position: d.textSpan.start }));
+}
+
+// ============================================================================
+// FORMATTING HELPERS
+// ============================================================================
+
+function relativePath(project: Project, fileName: string): string {
+  const relative = path.relative(project.root, fileName).split(path.sep).join('/');
+  return relative.startsWith('../') ? fileName : relative;
+}
+
+function describeLocation(project: Project, fileName: string, position: number): { location: string; line: number; text: string } {
+  const sourceFile = project.service.getProgram()?.getSourceFile(fileName);
+  if (!sourceFile) return { location: relativePath(project, fileName), line: 0, text: '' };
+
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(position);
+  const lineText = sourceFile.text.split('\n')[line] || '';
+
+  // Long lines (minified code, big template strings): show the part around the symbol
+  let text = lineText.trim();
+  if (text.length > MAX_TEXT_LENGTH) {
+    const start = Math.max(0, character - MAX_TEXT_LENGTH / 2);
+    text = `${start > 0 ? '…' : ''}${lineText.slice(start, start + MAX_TEXT_LENGTH).trim()}…`;
+  }
+
+  return {
+    location: `${relativePath(project, fileName)}:${line + 1}:${character + 1}`,
+    line: line + 1,
+    text,
+  };
+}
+
+// Modules are named by their quoted absolute path, which the location already shows
+function formatContainer(containerName: string | undefined): string {
+  return containerName && !containerName.startsWith('"') ? ` (in ${containerName})` : '';
+}
+
+// ============================================================================
+// TOOLS
+// ============================================================================
+
+export function findDefinition(root: string, query: SymbolQuery): string {
+  const project = getProject(root);
+
+  if (!query.file) {
+    const declarations = declarationsByName(project, query.symbol);
+    if (declarations.length === 0) {
+      throw new Error(`No declaration named "${query.symbol}" found. Pass the file (and line) where it is used.`);
+    }
+    return declarations.map(d => {
+      const { location, text } = describeLocation(project, d.fileName, d.textSpan.start);
+      return `${d.kind} ${d.name}${formatContainer(d.containerName)}\n  ${location}\n  ${text}`;
+    }).join('\n\n');
+  }
+
+  const seen = new Set<string>();
+  const results: string[] = [];
+  for (const { fileName, position } of resolvePositions(project, query)) {
+    for (const def of project.service.getDefinitionAtPosition(fileName, position) || []) {
+      const { location, text } = describeLocation(project, def.fileName, def.textSpan.start);
+      if (seen.has(location)) continue;
+      seen.add(location);
+      results.push(`${def.kind} ${def.name}${formatContainer(def.containerName)}\n  ${location}\n  ${text}`);
+    }
+  }
+  return results.join('\n\n') || `No definition found for "${query.symbol}"`;
+}
+
+export function findReferences(root: string, query: SymbolQuery): string {
+  const project = getProject(root);
+
+  const byFile = new Map<string, { line: number; entry: string }[]>();
+  const seen = new Set<string>();
+  let total = 0;
+
+  for (const { fileName, position } of resolvePositions(project, query)) {
+    for (const symbol of project.service.findReferences(fileName, position) || []) {
+      for (const ref of symbol.references) {
+        const { location, line, text } = describeLocation(project, ref.fileName, ref.textSpan.start);
+        if (seen.has(location)) continue;
+        seen.add(location);
+        total++;
+        if (total > MAX_REFERENCES) continue;
+
+        const file = relativePath(project, ref.fileName);
+        const entries = byFile.get(file) || [];
+        entries.push({ line, entry: `  ${location.slice(file.length + 1)}: ${text}${ref.isDefinition ? '  [definition]' : ''}` });
+        byFile.set(file, entries);
+      }
+    }
+  }
+
+  if (total === 0) return `No references found for "${query.symbol}"`;
+
+  const sections = [...byFile.entries()].map(([file, entries]) =>
+    `${file} (${entries.length})\n${entries.sort((a, b) => a.line - b.line).map(e => e.entry).join('\n')}`
+  );
+  const header = `${total} references in ${byFile.size} ${byFile.size === 1 ? 'file' : 'files'}${total > MAX_REFERENCES ? ` (showing the first ${MAX_REFERENCES})` : ''}:`;
+  return `${header}\n\n${sections.join('\n\n')}`;
+}
+
+function symbolKind(ts: TypeScript, symbol: TS.Symbol): string {
+  const flags = symbol.flags;
+  if (flags & ts.SymbolFlags.Function) return 'function';
+  if (flags & ts.SymbolFlags.Class) return 'class';
+  if (flags & ts.SymbolFlags.Interface) return 'interface';
+  if (flags & ts.SymbolFlags.TypeAlias) return 'type';
+  if (flags & ts.SymbolFlags.Enum) return 'enum';
+  if (flags & ts.SymbolFlags.Variable) return 'const';
+  if (flags & ts.SymbolFlags.Module) return 'namespace';
+  return 'symbol';
+}
+
+export function listExports(root: string, file: string): string {
+  const project = getProject(root);
+  includeFile(project, file);
+
+  const program = project.service.getProgram();
+  const sourceFile = program?.getSourceFile(file);
+  if (!program || !sourceFile) throw new Error(`Could not load ${relativePath(project, file)}`);
+
+  const checker = program.getTypeChecker();
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) return `${relativePath(project, file)} has no exports (not a module)`;
+
+  const { ts } = project;
+  const entries = checker.getExportsOfModule(moduleSymbol).map(exported => {
+    const target = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+    const declaration = target.declarations?.[0];
+    const kind = symbolKind(ts, target);
+
+    let signature = '';
+    if (declaration && (kind === 'function' || kind === 'const')) {
+      signature = checker.typeToString(checker.getTypeOfSymbolAtLocation(target, declaration), undefined, ts.TypeFormatFlags.NoTruncation);
+      if (signature.length > MAX_TEXT_LENGTH) signature = `${signature.slice(0, MAX_TEXT_LENGTH)}…`;
+    }
+
+    const where = declaration
+      ? describeLocation(project, declaration.getSourceFile().fileName, declaration.getStart())
+      : { location: '', line: 0 };
+    const reexport = declaration && declaration.getSourceFile() !== sourceFile ? ` (re-exported from ${where.location})` : '';
+    return {
+      line: reexport ? Number.MAX_SAFE_INTEGER : where.line,
+      text: `${kind} ${exported.getName()}${signature ? `: ${signature}` : ''}${reexport || (where.line ? `  line ${where.line}` : '')}`,
+    };
+  });
+
+  if (entries.length === 0) return `${relativePath(project, file)} has no exports`;
+  return entries.sort((a, b) => a.line - b.line).map(e => e.text).join('\n');
+}
+
+export function getTypeOf(root: string, query: SymbolQuery & { file: string }): string {
+  const project = getProject(root);
+  const [{ fileName, position }] = resolvePositions(project, query);
+
+  const info = project.service.getQuickInfoAtPosition(fileName, position);
+  if (!info) return `No type information for "${query.symbol}"`;
+
+  const { ts } = project;
+  const { location } = describeLocation(project, fileName, position);
+  const docs = ts.displayPartsToString(info.documentation);
+  const tags = (info.tags || []).map(tag => `@${tag.name} ${ts.displayPartsToString(tag.text)}`.trim());
+
+  return [`${location}`, ts.displayPartsToString(info.displayParts), docs, ...tags].filter(Boolean).join('\n');
+}
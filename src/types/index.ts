@@ -8,6 +8,7 @@ export interface EventPayload {
   comment_id?: number;
   comment_body?: string;
   comment_author?: string;
+  comment_author_type?: string;  // GitHub user type of the author ("User", "Bot")
   pr_number?: number;
   pr_title?: string;
   pr_body?: string;
@@ -27,6 +28,9 @@ export interface AgentSession {
   status: SessionStatus;
   conversation: ConversationMessage[];
   metadata: Record<string, unknown>;
+  team_lead_state?: Partial<TeamLeadState> | null;
+  locked_by?: string | null;
+  locked_until?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -42,6 +46,7 @@ export interface AgentContext {
   session: AgentSession;
   payload: EventPayload;
   githubToken: string;
+  config: CherryConfig;
 }
 
 // Structured result from agents for Team Lead
@@ -55,12 +60,21 @@ export interface AgentResult {
   error?: string;
 }
 
+// Context compaction counters for one agent loop (see services/compaction.ts)
+export interface CompactionStats {
+  compactions: number;
+  elidedToolResults: number;
+  droppedMessages: number;
+  peakTokens: number;           // Largest context seen, estimated or reported by the API
+}
+
 // Team Lead delegation tracking
 export interface Delegation {
   agent: AgentName;
   input: string;
   output: AgentResult;
   timestamp: string;
+  usage?: TokenUsage;  // Model usage of the agent run
 }
 
 export interface TeamLeadState {
@@ -69,3 +83,123 @@ export interface TeamLeadState {
   currentStrategy: string;
   iterationCount: number;
 }
+
+// Working tree snapshot, stored in session metadata as `checkpoints`
+export interface Checkpoint {
+  id: string;           // Commit sha (kept alive by refs/cherry/checkpoints/<id>)
+  tree: string;
+  label: string;
+  createdAt: string;
+  agent?: AgentName;    // The agent about to run / running when it was taken
+  good?: boolean;       // Type-check and tests passed at this point
+}
+
+// Token usage and estimated cost of one or more model calls
+export interface TokenUsage {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+}
+
+// Stored in session metadata as `usage`
+export interface SessionUsage {
+  total: TokenUsage;
+  byRole: Partial<Record<ModelRole, TokenUsage>>;
+  byModel: Record<string, TokenUsage>;
+}
+
+// Anything that calls the model: the delegatable agents plus the Team Lead and QA review
+export type ModelRole = AgentName | 'team-lead' | 'qa-review';
+
+export type CommentKind = 'status' | 'question' | 'result' | 'error' | 'board';
+
+// Hidden marker on every comment the agents post, so their own comments never trigger a run
+export interface CommentMarker {
+  agent: ModelRole | 'orchestrator';
+  kind: CommentKind;
+  sessionId?: string;
+}
+
+export interface ModelSettings {
+  model: string;
+  maxTokens: number;
+  temperature?: number;
+  fallbacks: string[];  // Tried in order when the model is overloaded or rate limited
+}
+
+// Limits for commands agents run (run_command, Claude Code CLI)
+export interface SandboxSettings {
+  network: boolean;        // false = no network access (needs bwrap or unshare)
+  timeoutSeconds: number;
+  cpuSeconds: number;      // 0 = no limit
+  memoryMb: number;        // 0 = no limit
+  maxOutputBytes: number;
+  env: string[];           // Extra environment variables to pass through; secrets are always stripped
+}
+
+// Who may drive the agent; roles are ordered none < requester < approver < admin
+export type AccessRole = 'none' | 'requester' | 'approver' | 'admin';
+export type RepoPermission = 'admin' | 'maintain' | 'write' | 'triage' | 'read' | 'none';
+export type AuthorizedAction =
+  | 'start' | 'stop' | 'implement' | 'reply'
+  | 'approve' | 'reject' | 'modify' | 'basic' | 'skip' | 'retry' | 'status' | 'budget' | 'rollback';
+
+export interface AuthorizationAuditEntry {
+  at: string;
+  actor: string;
+  action: AuthorizedAction;
+  role: AccessRole;
+  required: AccessRole;
+  source: string;        // Where the role came from, e.g. "write permission"
+}
+
+// Per-repository configuration (.cherry.yml / .cherry.json in the target repo)
+export interface CherryConfig {
+  baseBranch: string;
+  model: string;                  // Default model for every role
+  fallbackModels: string[];       // Default fallback chain for every role
+  models: Partial<Record<ModelRole, Partial<ModelSettings>>>;
+  labels: {
+    start: string;
+    stop: string;
+    complete: string;
+    implement: string;
+    prReady: string;
+  };
+  limits: {
+    teamLeadIterations: number;
+    implementerIterations: number;
+    implementerFixAttempts: number;
+    sessionBudgetUsd: number;     // Estimated spend before the Team Lead pauses; 0 = no limit
+  };
+  allowedCommands: string[];     // Command policy rules for run_command (see tools/command-policy.ts)
+  commandPolicies: Partial<Record<AgentName, string[]>>;  // Per-agent rules, replacing allowedCommands for that agent
+  sandbox: SandboxSettings;
+  checkpoints: {
+    enabled: boolean;
+    implementerInterval: number;  // Also checkpoint every N implementer iterations; 0 = off
+    maxStored: number;            // Oldest checkpoints are dropped from the session beyond this
+    pushToRemote: boolean;        // Push refs/cherry/checkpoints/* so later runs can roll back (off by default)
+  };
+  sandboxes: Partial<Record<AgentName, Partial<SandboxSettings>>>;  // Per-agent overrides of sandbox
+  compaction: {
+    enabled: boolean;
+    maxContextTokens: number;     // Estimated conversation size that triggers compaction
+    keepRecentMessages: number;   // Never compacted
+  };
+  protectedPaths: string[];
+  complexity: {
+    fileCountThreshold: number;
+    scoreThreshold: number;
+    complexKeywords: string[];
+  };
+  authorization: {
+    enabled: boolean;
+    roles: Partial<Record<Exclude<AccessRole, 'none'>, string[]>>;  // Logins or org/team slugs granted a role
+    permissions: Record<Exclude<RepoPermission, 'none'>, AccessRole>;  // Role from the repository permission
+    actions: Record<AuthorizedAction, AccessRole>;  // Minimum role for each action
+  };
+}
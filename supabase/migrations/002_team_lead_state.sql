@@ -0,0 +1,3 @@
+-- Persisted Team Lead state (delegation history, reasoning log, strategy, iteration count)
+ALTER TABLE agent_sessions
+  ADD COLUMN IF NOT EXISTS team_lead_state JSONB DEFAULT '{}'::jsonb;
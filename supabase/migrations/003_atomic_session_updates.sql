@@ -0,0 +1,62 @@
+-- Atomic JSONB updates and per-session run lock
+--
+-- append/merge run server-side so concurrent workflow runs can't clobber each
+-- other's conversation entries or metadata with a stale read-modify-write.
+
+ALTER TABLE agent_sessions
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+-- Append one message to the conversation
+CREATE OR REPLACE FUNCTION append_session_message(p_session_id UUID, p_message JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE agent_sessions
+    SET conversation = COALESCE(conversation, '[]'::jsonb) || jsonb_build_array(p_message)
+    WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Shallow-merge keys into metadata
+CREATE OR REPLACE FUNCTION merge_session_metadata(p_session_id UUID, p_metadata JSONB)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE agent_sessions
+    SET metadata = COALESCE(metadata, '{}'::jsonb) || p_metadata
+    WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Take the run lock if it is free, expired, or already held by this owner
+CREATE OR REPLACE FUNCTION acquire_session_lock(p_session_id UUID, p_owner TEXT, p_ttl_seconds INTEGER)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE agent_sessions
+    SET locked_by = p_owner,
+        locked_until = NOW() + make_interval(secs => p_ttl_seconds)
+    WHERE id = p_session_id
+      AND (locked_until IS NULL OR locked_until < NOW() OR locked_by = p_owner);
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Release the run lock (only if still held by this owner)
+CREATE OR REPLACE FUNCTION release_session_lock(p_session_id UUID, p_owner TEXT)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE agent_sessions
+    SET locked_by = NULL,
+        locked_until = NULL
+    WHERE id = p_session_id
+      AND locked_by = p_owner;
+END;
+$$ LANGUAGE plpgsql;